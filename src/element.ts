@@ -0,0 +1,23 @@
+// Import styles
+import './lib/styles/plugin-control.css';
+
+// Web component entry point
+import { definePluginControlElement } from './lib/core/PluginControlElement';
+
+export {
+  PluginControlElement,
+  definePluginControlElement,
+  PLUGIN_CONTROL_TAG,
+} from './lib/core/PluginControlElement';
+
+// Re-export types for custom element consumers
+export type {
+  PluginControlOptions,
+  PluginControlEvent,
+  PluginControlEventData,
+  PluginControlStateChangeEventData,
+  PluginState,
+} from './lib/core/types';
+
+// Register <maplibre-plugin-control> on import
+definePluginControlElement();
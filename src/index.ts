@@ -3,12 +3,70 @@ import './lib/styles/plugin-control.css';
 
 // Main entry point - Core exports
 export { PluginControl } from './lib/core/PluginControl';
+export { PluginControlGroup } from './lib/core/PluginControlGroup';
+export { FormRenderer } from './lib/core/FormRenderer';
+export type { FormRendererOptions } from './lib/core/FormRenderer';
+export { LayerManager, getLayerOpacityProperties } from './lib/core/LayerManager';
+export { ManagedResources } from './lib/core/ManagedResources';
+export { InteractionModeManager } from './lib/core/InteractionModeManager';
+export type { InteractionMode } from './lib/core/InteractionModeManager';
+export { FeatureInspector } from './lib/core/FeatureInspector';
+export type { FeatureInspectorChangeHandler } from './lib/core/FeatureInspector';
+export { createUrlStorage } from './lib/core/persistence';
+export { createTranslator, DEFAULT_MESSAGES } from './lib/core/i18n';
+export type { Translator } from './lib/core/i18n';
 
 // Type exports
 export type {
   PluginControlOptions,
+  PluginControlContent,
+  PluginControlTheme,
+  PluginControlBadge,
+  PluginControlPanelMode,
+  PluginControlPosition,
+  PluginControlSheetSnap,
+  PluginControlMapHandler,
+  PluginControlModeOptions,
+  PluginControlModeExitReason,
+  PluginControlMessages,
+  PluginControlContentRenderer,
+  PluginControlField,
+  PluginControlFieldValidator,
+  PluginControlNumericField,
+  PluginControlSelectField,
+  PluginControlCheckboxField,
+  PluginControlColorField,
+  PluginControlTextField,
+  LayerManagerOptions,
+  FeatureInspectorOptions,
+  ManagedImage,
+  ManagedImageOptions,
+  PluginControlPersistOptions,
+  PluginControlHistoryOptions,
+  PluginControlScheduler,
+  PluginStateStorage,
+  PluginStateStorageType,
+  PersistedPluginState,
   PluginState,
+  PluginStateData,
+  PluginStateUpdate,
+  PluginStateUpdater,
+  PluginStatePathListener,
+  DeepPartial,
+  PluginControlGroupOptions,
+  PluginControlGroupEvent,
+  PluginControlGroupEventHandler,
   PluginControlEvent,
+  PluginControlEventBase,
+  PluginControlEventMap,
+  PluginControlStateChangeEventData,
+  PluginControlFieldChangeEventData,
+  PluginControlHistoryChangeEventData,
+  PluginControlModeEnterEventData,
+  PluginControlModeExitEventData,
+  PluginControlFeatureSelectEventData,
+  PluginControlErrorEventData,
+  PluginControlEventData,
   PluginControlEventHandler,
 } from './lib/core/types';
 
@@ -20,4 +78,12 @@ export {
   debounce,
   throttle,
   classNames,
+  matchesShortcut,
+  isPlainObject,
+  isDeepEqual,
+  deepMerge,
+  deepFreeze,
+  freezeCopy,
+  getValueAtPath,
+  callHandlers,
 } from './lib/utils';
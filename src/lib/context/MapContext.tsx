@@ -0,0 +1,40 @@
+import { createContext, useContext } from 'react';
+import type { Map as MapLibreMap } from 'maplibre-gl';
+import type { MapProviderProps } from '../core/reactTypes';
+
+/**
+ * Context holding the MapLibre map shared by a component tree.
+ * `undefined` means no MapProvider is present; `null` means the map is not ready yet.
+ */
+export const MapContext = createContext<MapLibreMap | null | undefined>(undefined);
+
+/**
+ * Provides a map to descendant components, e.g. `PluginControlReact` and `useMap()`.
+ *
+ * @example
+ * ```tsx
+ * <MapProvider map={map}>
+ *   <PluginControlReact title="Layers" />
+ * </MapProvider>
+ * ```
+ *
+ * @param props - The map and the children
+ * @returns The provider element
+ */
+export function MapProvider({ map, children }: MapProviderProps) {
+  return <MapContext.Provider value={map}>{children}</MapContext.Provider>;
+}
+
+/**
+ * Returns the map from the nearest MapProvider.
+ *
+ * @returns The map, or null while it is not ready
+ * @throws If called outside a MapProvider
+ */
+export function useMap(): MapLibreMap | null {
+  const map = useContext(MapContext);
+  if (map === undefined) {
+    throw new Error('useMap must be used within a MapProvider');
+  }
+  return map;
+}
@@ -0,0 +1,41 @@
+import { createContext, useContext } from 'react';
+import type { PluginControl } from '../core/PluginControl';
+import type { PluginStateData } from '../core/types';
+import type { PluginControlProviderProps } from '../core/reactTypes';
+
+/**
+ * Context holding the PluginControl a component tree belongs to.
+ * `PluginControlReact` provides it to its children.
+ */
+export const PluginControlContext = createContext<PluginControl | null>(null);
+
+/**
+ * Provides a control to descendant components, e.g. for `usePluginControl()`.
+ *
+ * @param props - The control and the children
+ * @returns The provider element
+ */
+export function PluginControlProvider({ control, children }: PluginControlProviderProps) {
+  return <PluginControlContext.Provider value={control}>{children}</PluginControlContext.Provider>;
+}
+
+/**
+ * Returns the control from the nearest PluginControlProvider or PluginControlReact.
+ * The type parameter only narrows the state type; it is not checked at runtime.
+ *
+ * @example
+ * ```tsx
+ * function OpacitySlider() {
+ *   const control = usePluginControl<{ opacity: number }>();
+ *   const { state, setData } = usePluginState(control);
+ *   // ...
+ * }
+ * ```
+ *
+ * @returns The control, or null outside a provider
+ */
+export function usePluginControl<
+  TData extends PluginStateData = PluginStateData,
+>(): PluginControl<TData> | null {
+  return useContext(PluginControlContext) as PluginControl<TData> | null;
+}
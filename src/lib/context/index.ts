@@ -0,0 +1,6 @@
+export { MapContext, MapProvider, useMap } from './MapContext';
+export {
+  PluginControlContext,
+  PluginControlProvider,
+  usePluginControl,
+} from './PluginControlContext';
@@ -0,0 +1,362 @@
+import type { Map as MapLibreMap, MapGeoJSONFeature, PointLike } from 'maplibre-gl';
+import { createTranslator } from './i18n';
+import type { Translator } from './i18n';
+import type { FeatureInspectorOptions } from './types';
+
+/**
+ * Default hit tolerance around the clicked point, in pixels
+ */
+const DEFAULT_TOLERANCE = 3;
+
+/**
+ * How long the copy button shows its confirmation, in milliseconds
+ */
+const COPIED_DURATION = 1500;
+
+/**
+ * Called when the inspected feature changes
+ */
+export type FeatureInspectorChangeHandler = (
+  feature: MapGeoJSONFeature | null,
+  features: MapGeoJSONFeature[]
+) => void;
+
+/**
+ * Formats a property value for display.
+ *
+ * @param value - The property value
+ * @returns Strings as they are, everything else as JSON
+ */
+function formatPropertyValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Lists the properties of the map features at a clicked point, with paging
+ * through overlapping features, a feature-state highlight of the shown feature
+ * and a button that copies it as GeoJSON.
+ *
+ * The inspector does not listen to map clicks itself; call `inspectAt()` with
+ * the clicked point, e.g. from an interaction mode.
+ *
+ * @example
+ * ```typescript
+ * const inspector = new FeatureInspector(map, { layers: ['parcels'] });
+ * container.appendChild(inspector.getElement());
+ * map.on('click', (e) => inspector.inspectAt(e.point));
+ * ```
+ */
+export class FeatureInspector {
+  private _map: MapLibreMap;
+  private _options: FeatureInspectorOptions;
+  private _element: HTMLElement;
+  private _features: MapGeoJSONFeature[] = [];
+  private _index = 0;
+  private _inspected = false;
+  private _highlighted: MapGeoJSONFeature | null = null;
+  private _copiedTimer: ReturnType<typeof setTimeout> | null = null;
+  private _translate: Translator;
+  private _onChange?: FeatureInspectorChangeHandler;
+
+  /**
+   * Creates a new FeatureInspector instance.
+   *
+   * @param map - The MapLibre GL map instance
+   * @param options - Queried layers, hit tolerance and highlight options
+   * @param translate - Translates built-in labels. English labels are used when omitted.
+   * @param onChange - Called when the inspected feature changes
+   */
+  constructor(
+    map: MapLibreMap,
+    options: FeatureInspectorOptions = {},
+    translate: Translator = createTranslator('en'),
+    onChange?: FeatureInspectorChangeHandler
+  ) {
+    this._map = map;
+    this._options = options;
+    this._translate = translate;
+    this._onChange = onChange;
+    this._element = document.createElement('div');
+    this._element.className = 'plugin-control-inspector';
+    this._render();
+  }
+
+  /**
+   * Gets the inspector element.
+   *
+   * @returns The inspector element
+   */
+  getElement(): HTMLElement {
+    return this._element;
+  }
+
+  /**
+   * Queries the rendered features around a point and shows the top-most one.
+   *
+   * @param point - The point in pixels relative to the map container, e.g. `e.point` of a click
+   * @returns The features found, top-most first
+   */
+  inspectAt(point: PointLike): MapGeoJSONFeature[] {
+    const [x, y] = Array.isArray(point) ? point : [point.x, point.y];
+    const tolerance = Math.max(0, this._options.tolerance ?? DEFAULT_TOLERANCE);
+    const { layers } = this._options;
+
+    const features = this._map.queryRenderedFeatures(
+      [
+        [x - tolerance, y - tolerance],
+        [x + tolerance, y + tolerance],
+      ],
+      layers ? { layers: layers.filter((id) => this._map.getLayer(id)) } : undefined
+    );
+
+    this._inspected = true;
+    this._features = this._dedupe(features);
+    this._showFeature(0);
+    return this._features;
+  }
+
+  /**
+   * Shows another of the features found by the last `inspectAt()`.
+   *
+   * @param index - Index of the feature, top-most first
+   */
+  showFeature(index: number): void {
+    if (index < 0 || index >= this._features.length || index === this._index) return;
+    this._showFeature(index);
+  }
+
+  /**
+   * Gets the features found by the last `inspectAt()`.
+   *
+   * @returns The features, top-most first
+   */
+  getFeatures(): MapGeoJSONFeature[] {
+    return [...this._features];
+  }
+
+  /**
+   * Gets the feature currently shown.
+   *
+   * @returns The feature, or null if none is shown
+   */
+  getSelectedFeature(): MapGeoJSONFeature | null {
+    return this._features[this._index] ?? null;
+  }
+
+  /**
+   * Forgets the inspected features and removes the highlight.
+   */
+  clear(): void {
+    if (!this._inspected) return;
+    this._inspected = false;
+    this._features = [];
+    this._showFeature(0);
+  }
+
+  /**
+   * Removes the highlight and the inspector element.
+   */
+  destroy(): void {
+    this._setHighlight(null);
+    if (this._copiedTimer) clearTimeout(this._copiedTimer);
+    this._copiedTimer = null;
+    this._features = [];
+    this._element.remove();
+    this._element.replaceChildren();
+  }
+
+  /**
+   * Switches the shown feature, updates the highlight and re-renders.
+   *
+   * @param index - Index of the feature to show
+   */
+  private _showFeature(index: number): void {
+    this._index = index;
+    const feature = this.getSelectedFeature();
+    this._setHighlight(feature);
+    this._render();
+    this._onChange?.(feature, this.getFeatures());
+  }
+
+  /**
+   * Removes duplicates of the same feature, which are returned once per tile it crosses.
+   *
+   * @param features - The queried features
+   * @returns The features without duplicates, in the original order
+   */
+  private _dedupe(features: MapGeoJSONFeature[]): MapGeoJSONFeature[] {
+    const seen = new Set<string>();
+    return features.filter((feature) => {
+      if (feature.id === undefined) return true;
+      const key = JSON.stringify([feature.layer.id, feature.sourceLayer, feature.id]);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  /**
+   * Moves the highlight feature-state to a feature.
+   *
+   * @param feature - The feature to highlight, or null to remove the highlight
+   */
+  private _setHighlight(feature: MapGeoJSONFeature | null): void {
+    const key =
+      this._options.highlightState === undefined ? 'selected' : this._options.highlightState;
+    if (key === null) return;
+
+    const previous = this._highlighted;
+    this._highlighted = null;
+    // The source may be gone after a style change
+    if (previous && this._map.getSource(previous.source)) {
+      this._map.removeFeatureState(this._getStateTarget(previous), key);
+    }
+
+    // Feature-state needs feature ids
+    if (feature && feature.id !== undefined) {
+      this._map.setFeatureState(this._getStateTarget(feature), { [key]: true });
+      this._highlighted = feature;
+    }
+  }
+
+  /**
+   * Builds the feature-state target of a feature.
+   *
+   * @param feature - The feature
+   * @returns The target passed to `setFeatureState`
+   */
+  private _getStateTarget(feature: MapGeoJSONFeature) {
+    return { source: feature.source, sourceLayer: feature.sourceLayer, id: feature.id };
+  }
+
+  /**
+   * Renders the hint, the empty message or the shown feature.
+   */
+  private _render(): void {
+    const feature = this.getSelectedFeature();
+    if (!feature) {
+      const message = document.createElement('p');
+      message.className = 'plugin-control-placeholder';
+      message.textContent = this._translate(this._inspected ? 'noFeatures' : 'inspectorHint');
+      this._element.replaceChildren(message);
+      return;
+    }
+
+    const layer = document.createElement('div');
+    layer.className = 'plugin-control-inspector-layer';
+    layer.textContent = feature.layer.id;
+    layer.title = feature.layer.id;
+
+    this._element.replaceChildren(this._createToolbar(feature), layer, this._createTable(feature));
+  }
+
+  /**
+   * Creates the paging and copy buttons.
+   *
+   * @param feature - The shown feature
+   * @returns The toolbar element
+   */
+  private _createToolbar(feature: MapGeoJSONFeature): HTMLElement {
+    const toolbar = document.createElement('div');
+    toolbar.className = 'plugin-control-inspector-toolbar';
+
+    const count = this._features.length;
+    if (count > 1) {
+      const previous = this._createButton('‹', 'previousFeature', () =>
+        this.showFeature(this._index - 1)
+      );
+      previous.disabled = this._index === 0;
+
+      const page = document.createElement('span');
+      page.className = 'plugin-control-inspector-page';
+      page.setAttribute('aria-live', 'polite');
+      page.textContent = this._translate('featurePage', { index: this._index + 1, count });
+
+      const next = this._createButton('›', 'nextFeature', () => this.showFeature(this._index + 1));
+      next.disabled = this._index === count - 1;
+
+      toolbar.append(previous, page, next);
+    }
+
+    const copy = document.createElement('button');
+    copy.type = 'button';
+    copy.className = 'plugin-control-inspector-copy';
+    copy.textContent = this._translate('copyJson');
+    copy.addEventListener('click', () => this._copy(feature, copy));
+    toolbar.appendChild(copy);
+
+    return toolbar;
+  }
+
+  /**
+   * Creates an icon button with an accessible label.
+   *
+   * @param text - The button text
+   * @param label - Message key of the accessible label
+   * @param onClick - Click handler
+   * @returns The button
+   */
+  private _createButton(
+    text: string,
+    label: 'previousFeature' | 'nextFeature',
+    onClick: () => void
+  ): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'plugin-control-inspector-nav';
+    button.textContent = text;
+    button.setAttribute('aria-label', this._translate(label));
+    button.title = this._translate(label);
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
+  /**
+   * Creates the property table of a feature.
+   *
+   * @param feature - The feature
+   * @returns The table element
+   */
+  private _createTable(feature: MapGeoJSONFeature): HTMLElement {
+    const table = document.createElement('table');
+    table.className = 'plugin-control-inspector-properties';
+    const body = document.createElement('tbody');
+
+    for (const [key, value] of Object.entries(feature.properties ?? {})) {
+      const row = document.createElement('tr');
+      const name = document.createElement('th');
+      name.scope = 'row';
+      name.textContent = key;
+      const cell = document.createElement('td');
+      cell.textContent = formatPropertyValue(value);
+      row.append(name, cell);
+      body.appendChild(row);
+    }
+
+    table.appendChild(body);
+    return table;
+  }
+
+  /**
+   * Copies a feature to the clipboard as GeoJSON and confirms it on the button.
+   *
+   * @param feature - The feature
+   * @param button - The copy button
+   */
+  private _copy(feature: MapGeoJSONFeature, button: HTMLButtonElement): void {
+    const json = JSON.stringify(feature.toJSON(), null, 2);
+    navigator.clipboard
+      ?.writeText(json)
+      .then(() => {
+        if (this._copiedTimer) clearTimeout(this._copiedTimer);
+        button.textContent = this._translate('copied');
+        this._copiedTimer = setTimeout(() => {
+          this._copiedTimer = null;
+          button.textContent = this._translate('copyJson');
+        }, COPIED_DURATION);
+      })
+      .catch(() => {
+        // Clipboard access denied; nothing to confirm
+      });
+  }
+}
@@ -0,0 +1,315 @@
+import { clamp, formatNumericValue, generateId, isDeepEqual } from '../utils';
+import { createTranslator } from './i18n';
+import type { Translator } from './i18n';
+import type { PluginControlField, PluginControlNumericField, PluginState } from './types';
+
+/**
+ * Options for the FormRenderer
+ */
+export interface FormRendererOptions {
+  /**
+   * Returns the current control state, used for reading values and validation
+   */
+  getState: () => PluginState;
+
+  /**
+   * Called with a validated value when the user changes a field
+   */
+  onChange: (key: string, value: unknown) => void;
+
+  /**
+   * Translates built-in validation messages. English messages are used when omitted.
+   */
+  translate?: Translator;
+}
+
+/**
+ * Input elements and helpers rendered for a single field
+ */
+interface RenderedField {
+  field: PluginControlField;
+  input: HTMLInputElement | HTMLSelectElement;
+  output?: HTMLOutputElement;
+  error: HTMLElement;
+  /** The value last written to or reported from the input */
+  value?: unknown;
+}
+
+/**
+ * Returns the fallback value for a field without a default.
+ *
+ * @param field - The field schema
+ * @returns The value used when neither state nor schema provide one
+ */
+export function getFieldDefault(field: PluginControlField): unknown {
+  if (field.defaultValue !== undefined) return field.defaultValue;
+
+  switch (field.type) {
+    case 'range':
+    case 'number':
+      return field.min ?? 0;
+    case 'select': {
+      const first = field.options[0];
+      return typeof first === 'string' ? first : (first?.value ?? '');
+    }
+    case 'checkbox':
+      return false;
+    case 'color':
+      return '#000000';
+    case 'text':
+      return '';
+  }
+}
+
+/**
+ * Builds form inputs from a field schema and keeps them in sync with `PluginState.data`.
+ *
+ * @example
+ * ```typescript
+ * const form = new FormRenderer(
+ *   [{ type: 'range', key: 'opacity', min: 0, max: 1, step: 0.05 }],
+ *   { getState: () => control.getState(), onChange: (key, value) => console.log(key, value) }
+ * );
+ * container.appendChild(form.getElement());
+ * ```
+ */
+export class FormRenderer {
+  private _fields: PluginControlField[];
+  private _options: FormRendererOptions;
+  private _element: HTMLElement;
+  private _rendered: RenderedField[] = [];
+  private _translate: Translator;
+
+  /**
+   * Creates a new FormRenderer instance.
+   *
+   * @param fields - The field schema
+   * @param options - State accessor and change callback
+   */
+  constructor(fields: PluginControlField[], options: FormRendererOptions) {
+    this._fields = fields;
+    this._options = options;
+    this._translate = options.translate ?? createTranslator('en');
+    this._element = document.createElement('form');
+    this._element.className = 'plugin-control-form';
+    this._element.addEventListener('submit', (e) => e.preventDefault());
+
+    for (const field of this._fields) {
+      const rendered = this._createField(field);
+      this._rendered.push(rendered);
+    }
+
+    this.sync();
+  }
+
+  /**
+   * Gets the form element.
+   *
+   * @returns The form element
+   */
+  getElement(): HTMLElement {
+    return this._element;
+  }
+
+  /**
+   * Updates every input to reflect the current state.
+   * Inputs that currently show a validation error, and text-like inputs being
+   * edited, keep the user's value unless the state value changed since it was
+   * last written, e.g. through `setState()`; a shown error is then cleared.
+   */
+  sync(): void {
+    const data = this._options.getState().data ?? {};
+
+    for (const rendered of this._rendered) {
+      const { field, input, output, error } = rendered;
+      const value = field.key in data ? data[field.key] : getFieldDefault(field);
+      const changed = !('value' in rendered) || !isDeepEqual(value, rendered.value);
+      const editing =
+        document.activeElement === input && (field.type === 'text' || field.type === 'number');
+
+      if (!changed && (error.textContent || editing)) continue;
+      rendered.value = value;
+      if (error.textContent) this._setError(rendered, null);
+
+      if (field.type === 'checkbox') {
+        (input as HTMLInputElement).checked = Boolean(value);
+      } else if (field.type === 'range' || field.type === 'number') {
+        const formatted = formatNumericValue(Number(value), field.step ?? 1);
+        input.value = formatted;
+        if (output) output.value = formatted;
+      } else {
+        input.value = String(value ?? '');
+      }
+    }
+  }
+
+  /**
+   * Removes the form element and its listeners.
+   */
+  destroy(): void {
+    this._element.remove();
+    this._element.replaceChildren();
+    this._rendered = [];
+  }
+
+  /**
+   * Creates the label, input and error elements for a field.
+   *
+   * @param field - The field schema
+   * @returns The rendered field
+   */
+  private _createField(field: PluginControlField): RenderedField {
+    const group = document.createElement('div');
+    group.className = 'plugin-control-group';
+
+    const inputId = generateId(`plugin-control-field-${field.key}`);
+
+    const label = document.createElement('label');
+    label.className = 'plugin-control-label';
+    label.htmlFor = inputId;
+    label.textContent = field.label ?? field.key;
+
+    let input: HTMLInputElement | HTMLSelectElement;
+    let output: HTMLOutputElement | undefined;
+
+    if (field.type === 'select') {
+      const select = document.createElement('select');
+      select.className = 'plugin-control-input';
+      for (const option of field.options) {
+        const opt = document.createElement('option');
+        opt.value = typeof option === 'string' ? option : option.value;
+        opt.textContent = typeof option === 'string' ? option : (option.label ?? option.value);
+        select.appendChild(opt);
+      }
+      input = select;
+    } else {
+      const el = document.createElement('input');
+      el.type = field.type;
+      el.className = field.type === 'checkbox' ? 'plugin-control-checkbox' : 'plugin-control-input';
+      if (field.type === 'range' || field.type === 'number') {
+        const [min, max] = this._getBounds(field);
+        if (Number.isFinite(min)) el.min = String(min);
+        if (Number.isFinite(max)) el.max = String(max);
+        el.step = String(field.step ?? 1);
+      }
+      if (field.type === 'text' && field.placeholder) {
+        el.placeholder = field.placeholder;
+      }
+      input = el;
+    }
+
+    input.id = inputId;
+    input.name = field.key;
+    input.disabled = Boolean(field.disabled);
+
+    const error = document.createElement('div');
+    error.className = 'plugin-control-field-error';
+    error.id = `${inputId}-error`;
+    error.setAttribute('role', 'alert');
+    input.setAttribute('aria-describedby', error.id);
+
+    if (field.type === 'checkbox') {
+      label.prepend(input);
+      label.classList.add('plugin-control-checkbox-label');
+      group.appendChild(label);
+    } else if (field.type === 'range') {
+      const row = document.createElement('div');
+      row.className = 'plugin-control-range';
+      output = document.createElement('output');
+      output.className = 'plugin-control-range-value';
+      output.htmlFor.add(inputId);
+      row.appendChild(input);
+      row.appendChild(output);
+      group.appendChild(label);
+      group.appendChild(row);
+    } else {
+      group.appendChild(label);
+      group.appendChild(input);
+    }
+    group.appendChild(error);
+
+    const rendered: RenderedField = { field, input, output, error };
+    const eventName = field.type === 'checkbox' || field.type === 'select' ? 'change' : 'input';
+    input.addEventListener(eventName, () => this._handleInput(rendered));
+
+    this._element.appendChild(group);
+    return rendered;
+  }
+
+  /**
+   * Reads, normalizes and validates an input value, then reports it.
+   *
+   * @param rendered - The field whose input changed
+   */
+  private _handleInput(rendered: RenderedField): void {
+    const { field, input, output } = rendered;
+    let value: unknown;
+
+    if (field.type === 'checkbox') {
+      value = (input as HTMLInputElement).checked;
+    } else if (field.type === 'range' || field.type === 'number') {
+      const parsed = parseFloat(input.value);
+      if (Number.isNaN(parsed)) {
+        this._setError(rendered, this._translate('invalidNumber'));
+        return;
+      }
+      value = this._normalizeNumber(field, parsed);
+      if (output) output.value = formatNumericValue(value as number, field.step ?? 1);
+    } else {
+      value = input.value;
+    }
+
+    const message = field.validate
+      ? (field.validate as (value: unknown, state: PluginState) => string | null | undefined)(
+          value,
+          this._options.getState()
+        )
+      : null;
+
+    this._setError(rendered, message ?? null);
+    if (message) return;
+
+    rendered.value = value;
+    this._options.onChange(field.key, value);
+  }
+
+  /**
+   * Clamps a numeric value to the field bounds and rounds it to the step precision.
+   *
+   * @param field - The numeric field schema
+   * @param value - The parsed input value
+   * @returns The normalized value
+   */
+  private _normalizeNumber(field: PluginControlNumericField, value: number): number {
+    const [min, max] = this._getBounds(field);
+    return Number(formatNumericValue(clamp(value, min, max), field.step ?? 1));
+  }
+
+  /**
+   * Gets the bounds of a numeric field. Sliders need bounds and default to 0–100;
+   * number inputs are only bounded where the schema sets `min` or `max`.
+   *
+   * @param field - The numeric field schema
+   * @returns The minimum and maximum, infinite when unbounded
+   */
+  private _getBounds(field: PluginControlNumericField): [number, number] {
+    return field.type === 'range'
+      ? [field.min ?? 0, field.max ?? 100]
+      : [field.min ?? -Infinity, field.max ?? Infinity];
+  }
+
+  /**
+   * Shows or clears a validation message for a field.
+   *
+   * @param rendered - The field to update
+   * @param message - The error message, or null to clear it
+   */
+  private _setError(rendered: RenderedField, message: string | null): void {
+    rendered.error.textContent = message ?? '';
+    if (message) {
+      rendered.input.setAttribute('aria-invalid', 'true');
+    } else {
+      rendered.input.removeAttribute('aria-invalid');
+    }
+  }
+}
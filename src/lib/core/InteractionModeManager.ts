@@ -0,0 +1,191 @@
+import type { Map as MapLibreMap, MapMouseEvent } from 'maplibre-gl';
+import type {
+  PluginControlMapHandler,
+  PluginControlModeExitReason,
+  PluginControlModeOptions,
+} from './types';
+
+/**
+ * An interaction mode requested through `InteractionModeManager.activate`
+ */
+export interface InteractionMode {
+  /**
+   * Name of the mode, e.g. `'pick'`
+   */
+  name: string;
+
+  /**
+   * The object that started the mode, usually a PluginControl
+   */
+  owner: unknown;
+
+  /**
+   * Mode options
+   */
+  options?: PluginControlModeOptions;
+
+  /**
+   * Called once when the mode ends
+   */
+  onExit?: (reason: PluginControlModeExitReason) => void;
+}
+
+/**
+ * The active mode and what has to be restored when it ends
+ */
+interface ActiveMode extends InteractionMode {
+  previousCursor: string;
+  disabledHandlers: PluginControlMapHandler[];
+  clickHandler: ((e: MapMouseEvent) => void) | null;
+  keydownHandler: ((e: KeyboardEvent) => void) | null;
+}
+
+/**
+ * Managers keyed by map, so all controls on a map share one
+ */
+const managers = new WeakMap<MapLibreMap, InteractionModeManager>();
+
+/**
+ * Keeps at most one interaction mode active per map. Activating a mode ends
+ * the previous one, sets the map cursor, disables the requested map handlers,
+ * routes map clicks to the active mode only and ends the mode on Escape.
+ * Everything is restored when the mode ends.
+ *
+ * Use `InteractionModeManager.forMap(map)` to get the manager of a map.
+ *
+ * @example
+ * ```typescript
+ * const modes = InteractionModeManager.forMap(map);
+ * modes.activate({
+ *   name: 'pick',
+ *   owner: this,
+ *   options: { disableHandlers: ['doubleClickZoom'], onClick: (e) => pick(e.lngLat) },
+ *   onExit: (reason) => console.log('pick ended', reason),
+ * });
+ * ```
+ */
+export class InteractionModeManager {
+  private _map: MapLibreMap;
+  private _active: ActiveMode | null = null;
+
+  /**
+   * Creates a new InteractionModeManager instance.
+   * Prefer `InteractionModeManager.forMap(map)` so the manager is shared.
+   *
+   * @param map - The MapLibre GL map instance
+   */
+  constructor(map: MapLibreMap) {
+    this._map = map;
+  }
+
+  /**
+   * Gets the manager shared by all controls on a map, creating it if needed.
+   *
+   * @param map - The MapLibre GL map instance
+   * @returns The map's manager
+   */
+  static forMap(map: MapLibreMap): InteractionModeManager {
+    let manager = managers.get(map);
+    if (!manager) {
+      manager = new InteractionModeManager(map);
+      managers.set(map, manager);
+    }
+    return manager;
+  }
+
+  /**
+   * Activates a mode, ending the active one with reason `'replaced'`.
+   *
+   * @param mode - The mode to activate
+   */
+  activate(mode: InteractionMode): void {
+    this._exit('replaced');
+
+    const map = this._map;
+    const options = mode.options ?? {};
+    const canvas = map.getCanvas();
+    const active: ActiveMode = {
+      ...mode,
+      previousCursor: canvas.style.cursor,
+      disabledHandlers: [],
+      clickHandler: null,
+      keydownHandler: null,
+    };
+
+    canvas.style.cursor = options.cursor ?? 'crosshair';
+
+    // Only handlers that were enabled are re-enabled afterwards
+    for (const name of options.disableHandlers ?? []) {
+      const handler = map[name];
+      if (handler?.isEnabled()) {
+        handler.disable();
+        active.disabledHandlers.push(name);
+      }
+    }
+
+    if (options.onClick) {
+      const onClick = options.onClick;
+      active.clickHandler = (e) => onClick(e);
+      map.on('click', active.clickHandler);
+    }
+
+    if (options.cancelOnEscape ?? true) {
+      active.keydownHandler = (e) => {
+        if (e.key === 'Escape' && !e.defaultPrevented) {
+          this._exit('escape');
+        }
+      };
+      document.addEventListener('keydown', active.keydownHandler);
+    }
+
+    this._active = active;
+  }
+
+  /**
+   * Ends the active mode.
+   *
+   * @param owner - Only end the mode if it was started by this owner
+   * @param reason - The reason passed to the mode's `onExit`
+   */
+  deactivate(owner?: unknown, reason: PluginControlModeExitReason = 'deactivate'): void {
+    if (owner !== undefined && this._active?.owner !== owner) return;
+    this._exit(reason);
+  }
+
+  /**
+   * Gets the name of the active mode.
+   *
+   * @param owner - Only return the mode if it was started by this owner
+   * @returns The mode name, or null if no (matching) mode is active
+   */
+  getActiveMode(owner?: unknown): string | null {
+    if (!this._active || (owner !== undefined && this._active.owner !== owner)) return null;
+    return this._active.name;
+  }
+
+  /**
+   * Restores the map and notifies the active mode that it ended.
+   *
+   * @param reason - Why the mode ended
+   */
+  private _exit(reason: PluginControlModeExitReason): void {
+    const active = this._active;
+    if (!active) return;
+    // Cleared first so activating a mode from onExit works
+    this._active = null;
+
+    const map = this._map;
+    map.getCanvas().style.cursor = active.previousCursor;
+    for (const name of active.disabledHandlers) {
+      map[name]?.enable();
+    }
+    if (active.clickHandler) {
+      map.off('click', active.clickHandler);
+    }
+    if (active.keydownHandler) {
+      document.removeEventListener('keydown', active.keydownHandler);
+    }
+
+    active.onExit?.(reason);
+  }
+}
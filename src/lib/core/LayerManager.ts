@@ -0,0 +1,323 @@
+import type { Map as MapLibreMap, StyleLayer } from 'maplibre-gl';
+import { clamp, formatNumericValue } from '../utils';
+import { createTranslator } from './i18n';
+import type { Translator } from './i18n';
+import type { LayerManagerOptions } from './types';
+
+/**
+ * Paint properties controlling opacity for each layer type
+ */
+const OPACITY_PROPERTIES: Record<string, string[]> = {
+  background: ['background-opacity'],
+  fill: ['fill-opacity'],
+  line: ['line-opacity'],
+  circle: ['circle-opacity', 'circle-stroke-opacity'],
+  symbol: ['icon-opacity', 'text-opacity'],
+  raster: ['raster-opacity'],
+  'fill-extrusion': ['fill-extrusion-opacity'],
+  heatmap: ['heatmap-opacity'],
+  'color-relief': ['color-relief-opacity'],
+};
+
+/**
+ * Step used by the opacity sliders
+ */
+const OPACITY_STEP = 0.05;
+
+/**
+ * Returns the paint properties that control a layer type's opacity.
+ *
+ * @param type - The layer type
+ * @returns The opacity paint properties, empty if the type has none
+ */
+export function getLayerOpacityProperties(type: string): string[] {
+  return OPACITY_PROPERTIES[type] ?? [];
+}
+
+/**
+ * Renders a list of the map style's layers with visibility toggles, opacity
+ * sliders and drag-to-reorder, and keeps it in sync with the style.
+ *
+ * Layers are listed top-most first, i.e. in reverse style order.
+ *
+ * @example
+ * ```typescript
+ * const manager = new LayerManager(map, { idPattern: /^water/ });
+ * container.appendChild(manager.getElement());
+ * ```
+ */
+export class LayerManager {
+  private _map: MapLibreMap;
+  private _options: LayerManagerOptions;
+  private _element: HTMLElement;
+  private _layerIds: string[] = [];
+  private _draggedId: string | null = null;
+  private _styleDataHandler: () => void;
+  private _translate: Translator;
+
+  /**
+   * Creates a new LayerManager instance.
+   *
+   * @param map - The MapLibre GL map instance
+   * @param options - Layer filtering and display options
+   * @param translate - Translates built-in labels. English labels are used when omitted.
+   */
+  constructor(
+    map: MapLibreMap,
+    options: LayerManagerOptions = {},
+    translate: Translator = createTranslator('en')
+  ) {
+    this._map = map;
+    this._options = options;
+    this._translate = translate;
+    this._element = document.createElement('ul');
+    this._element.className = 'plugin-control-layers';
+
+    // styledata fires for layer additions/removals, property changes and style swaps
+    this._styleDataHandler = () => this.refresh();
+    this._map.on('styledata', this._styleDataHandler);
+
+    this.refresh();
+  }
+
+  /**
+   * Gets the list element.
+   *
+   * @returns The list element
+   */
+  getElement(): HTMLElement {
+    return this._element;
+  }
+
+  /**
+   * Synchronizes the list with the current map style.
+   * Rows are rebuilt only when the set or order of layers changed.
+   */
+  refresh(): void {
+    if (this._draggedId) return;
+
+    const layers = this._getLayers();
+    const ids = layers.map((layer) => layer.id);
+
+    if (ids.length !== this._layerIds.length || ids.some((id, i) => id !== this._layerIds[i])) {
+      this._layerIds = ids;
+      this._element.replaceChildren(...layers.map((layer) => this._createRow(layer)));
+      if (layers.length === 0) {
+        const empty = document.createElement('li');
+        empty.className = 'plugin-control-placeholder';
+        empty.textContent = this._translate('noLayers');
+        this._element.appendChild(empty);
+      }
+      return;
+    }
+
+    const rows = this._element.querySelectorAll<HTMLElement>('.plugin-control-layer');
+    layers.forEach((layer, i) => {
+      if (rows[i]) this._updateRow(rows[i], layer);
+    });
+  }
+
+  /**
+   * Removes the list element and stops listening to the map.
+   */
+  destroy(): void {
+    this._map.off('styledata', this._styleDataHandler);
+    this._element.remove();
+    this._element.replaceChildren();
+    this._layerIds = [];
+  }
+
+  /**
+   * Returns the style layers that pass the configured filters, top-most first.
+   * Runs on every `styledata` event, so it reads the layer order and layers
+   * directly instead of serializing the whole style with `getStyle()`.
+   *
+   * @returns The filtered layers
+   */
+  private _getLayers(): StyleLayer[] {
+    const { idPattern, source, filter } = this._options;
+    const sources = source === undefined ? null : Array.isArray(source) ? source : [source];
+    // Global and sticky flags make test() stateful, which would skip every other match
+    const pattern =
+      idPattern instanceof RegExp
+        ? new RegExp(idPattern.source, idPattern.flags.replace(/[gy]/g, ''))
+        : null;
+
+    return this._map
+      .getLayersOrder()
+      .map((id) => this._map.getLayer(id))
+      .filter((layer): layer is StyleLayer => {
+        if (!layer) return false;
+        if (pattern && !pattern.test(layer.id)) return false;
+        if (typeof idPattern === 'string' && !layer.id.includes(idPattern)) return false;
+        if (sources && (typeof layer.source !== 'string' || !sources.includes(layer.source))) {
+          return false;
+        }
+        return filter ? filter(layer.serialize()) : true;
+      })
+      .reverse();
+  }
+
+  /**
+   * Reads the current opacity of a layer.
+   *
+   * @param layer - The layer
+   * @returns The opacity, or 1 when unset or data-driven
+   */
+  private _getOpacity(layer: StyleLayer): number {
+    const [property] = getLayerOpacityProperties(layer.type);
+    if (!property) return 1;
+    const value = this._map.getPaintProperty(layer.id, property);
+    return typeof value === 'number' ? value : 1;
+  }
+
+  /**
+   * Creates the list row for a layer.
+   *
+   * @param layer - The layer
+   * @returns The row element
+   */
+  private _createRow(layer: StyleLayer): HTMLElement {
+    const row = document.createElement('li');
+    row.className = 'plugin-control-layer';
+    row.dataset.layerId = layer.id;
+
+    const reorderable = this._options.reorderable ?? true;
+    if (reorderable) {
+      const handle = document.createElement('span');
+      handle.className = 'plugin-control-layer-handle';
+      handle.setAttribute('aria-hidden', 'true');
+      handle.textContent = '☰';
+      row.appendChild(handle);
+      row.draggable = true;
+      this._setupDrag(row);
+    }
+
+    const label = document.createElement('label');
+    label.className = 'plugin-control-layer-label';
+    label.title = layer.id;
+
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.className = 'plugin-control-layer-visibility';
+    checkbox.addEventListener('change', () => {
+      this._map.setLayoutProperty(layer.id, 'visibility', checkbox.checked ? 'visible' : 'none');
+    });
+
+    const name = document.createElement('span');
+    name.className = 'plugin-control-layer-name';
+    name.textContent = layer.id;
+
+    label.appendChild(checkbox);
+    label.appendChild(name);
+    row.appendChild(label);
+
+    const properties = getLayerOpacityProperties(layer.type);
+    if ((this._options.showOpacity ?? true) && properties.length > 0) {
+      const slider = document.createElement('input');
+      slider.type = 'range';
+      slider.className = 'plugin-control-layer-opacity';
+      slider.min = '0';
+      slider.max = '1';
+      slider.step = String(OPACITY_STEP);
+      slider.setAttribute('aria-label', this._translate('layerOpacity', { layer: layer.id }));
+      slider.addEventListener('input', () => {
+        const opacity = clamp(parseFloat(slider.value), 0, 1);
+        slider.title = formatNumericValue(opacity, OPACITY_STEP);
+        for (const property of properties) {
+          this._map.setPaintProperty(layer.id, property, opacity);
+        }
+      });
+      row.appendChild(slider);
+    }
+
+    this._updateRow(row, layer);
+    return row;
+  }
+
+  /**
+   * Updates a row's inputs to match the layer's current visibility and opacity.
+   *
+   * @param row - The row element
+   * @param layer - The layer
+   */
+  private _updateRow(row: HTMLElement, layer: StyleLayer): void {
+    const checkbox = row.querySelector<HTMLInputElement>('.plugin-control-layer-visibility');
+    if (checkbox) {
+      checkbox.checked = this._map.getLayoutProperty(layer.id, 'visibility') !== 'none';
+    }
+
+    const slider = row.querySelector<HTMLInputElement>('.plugin-control-layer-opacity');
+    if (slider && document.activeElement !== slider) {
+      const opacity = this._getOpacity(layer);
+      slider.value = String(opacity);
+      slider.title = formatNumericValue(opacity, OPACITY_STEP);
+    }
+  }
+
+  /**
+   * Attaches drag-and-drop handlers used to reorder layers.
+   *
+   * @param row - The row element
+   */
+  private _setupDrag(row: HTMLElement): void {
+    const id = row.dataset.layerId!;
+
+    row.addEventListener('dragstart', (e) => {
+      this._draggedId = id;
+      row.classList.add('dragging');
+      e.dataTransfer?.setData('text/plain', id);
+      if (e.dataTransfer) e.dataTransfer.effectAllowed = 'move';
+    });
+
+    row.addEventListener('dragover', (e) => {
+      if (!this._draggedId || this._draggedId === id) return;
+      e.preventDefault();
+      const rect = row.getBoundingClientRect();
+      const after = e.clientY > rect.top + rect.height / 2;
+      row.classList.toggle('drop-before', !after);
+      row.classList.toggle('drop-after', after);
+    });
+
+    row.addEventListener('dragleave', () => {
+      row.classList.remove('drop-before', 'drop-after');
+    });
+
+    row.addEventListener('drop', (e) => {
+      e.preventDefault();
+      const after = row.classList.contains('drop-after');
+      row.classList.remove('drop-before', 'drop-after');
+      const draggedId = this._draggedId;
+      if (draggedId && draggedId !== id) {
+        this._moveLayer(draggedId, id, after);
+      }
+    });
+
+    row.addEventListener('dragend', () => {
+      row.classList.remove('dragging');
+      this._draggedId = null;
+      this.refresh();
+    });
+  }
+
+  /**
+   * Moves a layer next to a target layer in the list.
+   *
+   * @param id - The id of the layer being moved
+   * @param targetId - The id of the row it was dropped on
+   * @param after - Whether it was dropped below the target row
+   */
+  private _moveLayer(id: string, targetId: string, after: boolean): void {
+    // The list is top-most first, so dropping below a row places the layer under it in the style
+    const styleIds = this._map.getLayersOrder();
+    const targetIndex = styleIds.indexOf(targetId);
+    if (targetIndex === -1) return;
+
+    if (after) {
+      this._map.moveLayer(id, targetId);
+    } else {
+      const above = styleIds.slice(targetIndex + 1).find((layerId) => layerId !== id);
+      this._map.moveLayer(id, above);
+    }
+  }
+}
@@ -0,0 +1,252 @@
+import type { AddLayerObject, Map as MapLibreMap, SourceSpecification } from 'maplibre-gl';
+import type { ManagedImage, ManagedImageOptions } from './types';
+
+/**
+ * A registered layer and the layer it is inserted before
+ */
+interface ManagedLayer {
+  layer: AddLayerObject;
+  beforeId?: string;
+}
+
+/**
+ * A registered image and its metadata
+ */
+interface ManagedImageEntry {
+  image: ManagedImage;
+  options?: ManagedImageOptions;
+}
+
+/**
+ * Registry of the sources, layers and images a control adds to the map.
+ *
+ * Registered items are added when the style is ready and added again whenever
+ * a style change removed them, e.g. after `map.setStyle()`. Items whose id
+ * already exists on the map, e.g. because the new style contains them, are
+ * adopted as they are; only `addLayer()` replaces an existing layer with the
+ * same id. `detach()` removes all of them from the map but keeps the
+ * registrations for the next `attach()`.
+ *
+ * @example
+ * ```typescript
+ * const resources = new ManagedResources();
+ * resources.addSource('points', { type: 'geojson', data });
+ * resources.addLayer({ id: 'points', type: 'circle', source: 'points' });
+ * resources.attach(map);
+ * ```
+ */
+export class ManagedResources {
+  private _map: MapLibreMap | null = null;
+  private _sources = new globalThis.Map<string, SourceSpecification>();
+  private _layers = new globalThis.Map<string, ManagedLayer>();
+  private _images = new globalThis.Map<string, ManagedImageEntry>();
+  private _applying = false;
+
+  // styledata fires after style loads, diffed setStyle() calls and every style edit
+  private _styleDataHandler = () => this.apply();
+
+  /**
+   * Starts managing the registered items on a map and adds the missing ones.
+   *
+   * @param map - The MapLibre GL map instance
+   */
+  attach(map: MapLibreMap): void {
+    this.detach();
+    this._map = map;
+    map.on('styledata', this._styleDataHandler);
+    this.apply();
+  }
+
+  /**
+   * Removes all registered items from the map and stops managing them.
+   * The registrations are kept.
+   */
+  detach(): void {
+    const map = this._map;
+    if (!map) return;
+
+    map.off('styledata', this._styleDataHandler);
+    this._map = null;
+
+    for (const id of [...this._layers.keys()].reverse()) {
+      if (map.getLayer(id)) map.removeLayer(id);
+    }
+    for (const id of this._sources.keys()) {
+      this._removeSourceFromMap(id, map);
+    }
+    for (const id of this._images.keys()) {
+      if (map.hasImage(id)) map.removeImage(id);
+    }
+  }
+
+  /**
+   * Registers a source and adds it to the map.
+   *
+   * @param id - The source id
+   * @param source - The source specification
+   */
+  addSource(id: string, source: SourceSpecification): void {
+    this._sources.set(id, source);
+    this.apply();
+  }
+
+  /**
+   * Registers a layer and adds it to the map, replacing a layer with the same
+   * id. Layers are re-added in the order they were registered, so later layers
+   * are drawn above earlier ones unless `beforeId` says otherwise.
+   *
+   * @param layer - The layer specification
+   * @param beforeId - Id of the layer to insert before. The layer goes on top
+   *   when omitted or when that layer does not exist in the current style.
+   */
+  addLayer(layer: AddLayerObject, beforeId?: string): void {
+    // Re-registering moves the layer to the end of the order
+    this._layers.delete(layer.id);
+    this._layers.set(layer.id, { layer, beforeId });
+
+    // Replace rather than adopt, so the new specification takes effect
+    const map = this._map;
+    if (map?.getLayer(layer.id) && map.getStyle()) {
+      map.removeLayer(layer.id);
+    }
+    this.apply();
+  }
+
+  /**
+   * Registers an image and adds it to the map.
+   *
+   * @param id - The image id
+   * @param image - The image
+   * @param options - Image metadata such as `pixelRatio` or `sdf`
+   */
+  addImage(id: string, image: ManagedImage, options?: ManagedImageOptions): void {
+    this._images.set(id, { image, options });
+    this.apply();
+  }
+
+  /**
+   * Unregisters a source and removes it from the map, together with the
+   * managed layers that use it. The source stays on the map, with a warning,
+   * while layers that are not managed here still use it.
+   *
+   * @param id - The source id
+   */
+  removeSource(id: string): void {
+    for (const [layerId, { layer }] of this._layers) {
+      if ('source' in layer && layer.source === id) {
+        this.removeLayer(layerId);
+      }
+    }
+    if (!this._sources.delete(id)) return;
+    this._removeSourceFromMap(id);
+  }
+
+  /**
+   * Unregisters a layer and removes it from the map.
+   *
+   * @param id - The layer id
+   */
+  removeLayer(id: string): void {
+    if (!this._layers.delete(id)) return;
+    if (this._map?.getLayer(id)) this._map.removeLayer(id);
+  }
+
+  /**
+   * Unregisters an image and removes it from the map.
+   *
+   * @param id - The image id
+   */
+  removeImage(id: string): void {
+    if (!this._images.delete(id)) return;
+    if (this._map?.hasImage(id)) this._map.removeImage(id);
+  }
+
+  /**
+   * Gets the ids of the registered layers in the order they are added.
+   *
+   * @returns The layer ids
+   */
+  getLayerIds(): string[] {
+    return [...this._layers.keys()];
+  }
+
+  /**
+   * Gets the ids of the registered sources.
+   *
+   * @returns The source ids
+   */
+  getSourceIds(): string[] {
+    return [...this._sources.keys()];
+  }
+
+  /**
+   * Adds the registered items missing from the map: images first, then
+   * sources, then layers in registration order. Does nothing until the style
+   * has loaded.
+   */
+  apply(): void {
+    const map = this._map;
+    // Adding items fires styledata again
+    if (!map || this._applying) return;
+
+    const images = [...this._images].filter(([id]) => !map.hasImage(id));
+    const sources = [...this._sources].filter(([id]) => !map.getSource(id));
+    const layers = [...this._layers.values()].filter(({ layer }) => !map.getLayer(layer.id));
+    if (images.length + sources.length + layers.length === 0) return;
+
+    // getStyle() returns nothing while a new style is loading
+    if (!map.getStyle()) return;
+
+    this._applying = true;
+    try {
+      for (const [id, { image, options }] of images) {
+        map.addImage(id, image, options);
+      }
+      for (const [id, source] of sources) {
+        map.addSource(id, source);
+      }
+      for (const { layer, beforeId } of layers) {
+        map.addLayer(layer, this._resolveBeforeId(map, layer.id, beforeId));
+      }
+    } finally {
+      this._applying = false;
+    }
+  }
+
+  /**
+   * Removes a source from the map unless other layers still use it, which
+   * would make `map.removeSource()` throw.
+   *
+   * @param id - The source id
+   * @param map - The map, defaults to the attached one
+   */
+  private _removeSourceFromMap(id: string, map = this._map): void {
+    if (!map?.getSource(id)) return;
+
+    const users = map.getLayersOrder().filter((layerId) => map.getLayer(layerId)?.source === id);
+    if (users.length > 0) {
+      console.warn(
+        `ManagedResources: source "${id}" is still used by ${users.join(', ')} and was not removed`
+      );
+      return;
+    }
+    map.removeSource(id);
+  }
+
+  /**
+   * Finds the layer to insert a managed layer before.
+   *
+   * @param map - The map
+   * @param id - The id of the layer being added
+   * @param beforeId - The registered `beforeId`
+   * @returns The registered `beforeId` if it exists, otherwise the next managed
+   *   layer on top that is already on the map, or undefined for the top
+   */
+  private _resolveBeforeId(map: MapLibreMap, id: string, beforeId?: string): string | undefined {
+    if (beforeId) return map.getLayer(beforeId) ? beforeId : undefined;
+
+    // Keep the registration order when only some layers were removed
+    const later = [...this._layers.values()].slice(this.getLayerIds().indexOf(id) + 1);
+    return later.find((entry) => !entry.beforeId && map.getLayer(entry.layer.id))?.layer.id;
+  }
+}
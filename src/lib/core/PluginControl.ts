@@ -1,9 +1,54 @@
-import type { IControl, Map as MapLibreMap } from 'maplibre-gl';
+import type {
+  AddLayerObject,
+  IControl,
+  Map as MapLibreMap,
+  MapGeoJSONFeature,
+  SourceSpecification,
+} from 'maplibre-gl';
+import { FormRenderer, getFieldDefault } from './FormRenderer';
+import { InteractionModeManager } from './InteractionModeManager';
+import { LayerManager } from './LayerManager';
+import { FeatureInspector } from './FeatureInspector';
+import { ManagedResources } from './ManagedResources';
+import { StateHistory } from './StateHistory';
+import type { PluginControlGroup } from './PluginControlGroup';
+import {
+  callHandlers,
+  clamp,
+  deepMerge,
+  freezeCopy,
+  generateId,
+  getValueAtPath,
+  isDeepEqual,
+  matchesShortcut,
+} from '../utils';
+import { createTranslator } from './i18n';
+import type { Translator } from './i18n';
+import { clearPersistedState, loadPersistedState, savePersistedState } from './persistence';
 import type {
   PluginControlOptions,
+  PluginControlContent,
+  PluginControlField,
+  PluginControlHistoryOptions,
+  PluginControlTheme,
+  PluginControlMessages,
+  PluginControlBadge,
+  PluginControlModeOptions,
+  PluginControlPanelMode,
+  PluginControlPosition,
+  PluginControlSheetSnap,
+  LayerManagerOptions,
+  FeatureInspectorOptions,
+  ManagedImage,
+  ManagedImageOptions,
   PluginState,
+  PluginStateData,
+  PluginStatePathListener,
+  PluginStateUpdate,
+  PluginStateUpdater,
   PluginControlEvent,
-  PluginControlEventHandler,
+  PluginControlEventBase,
+  PluginControlEventMap,
 } from './types';
 
 /**
@@ -14,13 +59,121 @@ const DEFAULT_OPTIONS: Required<PluginControlOptions> = {
   position: 'top-right',
   title: 'Plugin Control',
   panelWidth: 300,
+  panelHeight: null,
+  resizable: false,
+  minPanelWidth: 200,
+  maxPanelWidth: 600,
+  minPanelHeight: 100,
+  maxPanelHeight: 800,
+  draggable: false,
+  autoFocus: true,
+  trapFocus: false,
+  keyboardShortcut: null,
+  theme: 'light',
+  locale: 'en',
+  fallbackLocale: 'en',
+  messages: {},
+  icon: null,
+  tooltip: true,
+  panelMode: 'floating',
+  forwardEvents: false,
+  panelContainer: null,
+  mobileBreakpoint: null,
+  sheetSnapPoints: ['peek', 'half', 'full'],
+  sheetSnap: 'half',
+  group: null,
   className: '',
+  content: null,
+  fields: [],
+  layerManager: false,
+  inspector: false,
+  persist: null,
+  history: false,
+  scheduler: 'microtask',
+};
+
+/**
+ * Default options for the undo/redo history
+ */
+const DEFAULT_HISTORY_OPTIONS: Required<PluginControlHistoryOptions> = {
+  limit: 50,
+  coalesceDelay: 300,
+  keys: ['data'],
+  keyboard: true,
+};
+
+/**
+ * Name of the interaction mode run by the feature inspector
+ */
+const INSPECT_MODE = 'inspect';
+
+/**
+ * Default toggle button icon
+ */
+const DEFAULT_ICON = `
+  <svg class="plugin-control-default-icon" viewBox="0 0 24 24" width="22" height="22" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+    <rect x="3" y="3" width="7" height="7" rx="1"/>
+    <rect x="14" y="3" width="7" height="7" rx="1"/>
+    <rect x="3" y="14" width="7" height="7" rx="1"/>
+    <rect x="14" y="14" width="7" height="7" rx="1"/>
+  </svg>
+`;
+
+/**
+ * Largest count displayed on the badge before it is shown as "99+"
+ */
+const MAX_BADGE_COUNT = 99;
+
+/**
+ * Bottom sheet height at each snap point, as a fraction of the map height
+ */
+const SHEET_SNAP_HEIGHTS: Record<PluginControlSheetSnap, number> = {
+  peek: 0.25,
+  half: 0.5,
+  full: 0.9,
 };
 
 /**
- * Event handlers map type
+ * Selector matching elements that can receive keyboard focus
+ */
+const FOCUSABLE_SELECTOR = [
+  'a[href]',
+  'button:not([disabled])',
+  'input:not([disabled]):not([type="hidden"])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[tabindex]:not([tabindex="-1"])',
+].join(',');
+
+/**
+ * Event handlers map type. Handlers are stored untyped; `on()` and `emit()` enforce the payload types.
+ */
+type EventHandlersMap = globalThis.Map<string, Set<(event: PluginControlEventBase) => void>>;
+
+/**
+ * Input types whose native undo is kept instead of the history shortcuts
+ */
+const TEXT_INPUT_TYPES = new Set(['text', 'search', 'email', 'url', 'tel', 'password', 'number']);
+
+/**
+ * Checks whether an event target is a text field or editable element.
+ *
+ * @param target - The event target
+ * @returns True if the target edits text
+ */
+function isTextEditable(target: EventTarget | null): boolean {
+  if (target instanceof HTMLTextAreaElement) return true;
+  if (target instanceof HTMLInputElement) return TEXT_INPUT_TYPES.has(target.type);
+  return target instanceof HTMLElement && target.isContentEditable;
+}
+
+/**
+ * A path subscription registered with `subscribe()`
  */
-type EventHandlersMap = globalThis.Map<PluginControlEvent, Set<PluginControlEventHandler>>;
+interface PathSubscription {
+  path: string;
+  listener: PluginStatePathListener<unknown, never>;
+}
 
 /**
  * A template MapLibre GL control that can be customized for various plugin needs.
@@ -34,33 +187,115 @@ type EventHandlersMap = globalThis.Map<PluginControlEvent, Set<PluginControlEven
  * });
  * map.addControl(control, 'top-right');
  * ```
+ *
+ * @typeParam TData - Shape of `state.data`
+ * @typeParam TEvents - Event payloads keyed by event type; extend PluginControlEventMap
+ *   to declare custom events emitted by a subclass with `emit()`
  */
-export class PluginControl implements IControl {
+export class PluginControl<
+  TData extends PluginStateData = PluginStateData,
+  TEvents extends PluginControlEventMap<TData> = PluginControlEventMap<TData>,
+> implements IControl
+{
   private _map?: MapLibreMap;
   private _mapContainer?: HTMLElement;
   private _container?: HTMLElement;
+  private _toggleButton?: HTMLButtonElement;
+  private _closeButton?: HTMLButtonElement;
+  private _headerActions?: HTMLElement;
+  private _tooltip?: HTMLElement;
+  private _badge: PluginControlBadge = null;
   private _panel?: HTMLElement;
+  private _content?: HTMLElement;
+  private _form?: FormRenderer;
+  private _layerManager?: LayerManager;
+  private _inspector?: FeatureInspector;
+  private _managedResources = new ManagedResources();
+  // Stored without TData so controls with different data types share one shape (e.g. in groups)
   private _options: Required<PluginControlOptions>;
-  private _state: PluginState;
+  private _translate: Translator;
+  private _state: PluginState<TData>;
+  private _lastEmittedState: PluginState<TData>;
   private _eventHandlers: EventHandlersMap = new globalThis.Map();
+  // once() wrappers keyed by event, then by the original handler
+  private _onceHandlers = new globalThis.Map<
+    string,
+    WeakMap<object, (event: PluginControlEventBase) => void>
+  >();
+  private _pathSubscriptions = new Set<PathSubscription>();
+
+  // Scheduled statechange notification
+  private _stateChangePending = false;
+  private _batchDepth = 0;
+  private _cancelScheduledFlush: (() => void) | null = null;
+
+  // Undo/redo history, null when disabled
+  private _history: StateHistory<Partial<PluginState<TData>>> | null = null;
+  private _historyOptions: Required<PluginControlHistoryOptions> = DEFAULT_HISTORY_OPTIONS;
+  private _restoringHistory = false;
 
   // Panel positioning handlers
   private _resizeHandler: (() => void) | null = null;
   private _mapResizeHandler: (() => void) | null = null;
   private _clickOutsideHandler: ((e: MouseEvent) => void) | null = null;
+  private _contentResizeObserver: ResizeObserver | null = null;
+  private _shortcutHandler: ((e: KeyboardEvent) => void) | null = null;
+  // Set while the user toggles the panel, who then expects focus to move into it
+  private _toggledByUser = false;
+  private _panelId = generateId('plugin-control-panel');
+
+  // Bottom sheet presentation on narrow maps
+  private _sheet = false;
+  private _sheetSnap: PluginControlSheetSnap;
+
+  // Media query used by the 'auto' theme
+  private _colorSchemeQuery: MediaQueryList | null = null;
+  private _colorSchemeHandler: (() => void) | null = null;
+
+  // Resize and drag gesture state
+  private _gestureCleanup: (() => void) | null = null;
+  private _ignoreNextClick = false;
 
   /**
    * Creates a new PluginControl instance.
    *
    * @param options - Configuration options for the control
    */
-  constructor(options?: Partial<PluginControlOptions>) {
-    this._options = { ...DEFAULT_OPTIONS, ...options };
+  constructor(options?: Partial<PluginControlOptions<TData>>) {
+    this._options = { ...DEFAULT_OPTIONS, ...(options as Partial<PluginControlOptions>) };
+    this._translate = this._createTranslator();
+    this._sheetSnap = this._options.sheetSnap;
     this._state = {
       collapsed: this._options.collapsed,
       panelWidth: this._options.panelWidth,
-      data: {},
+      panelHeight: this._options.panelHeight,
+      panelOffset: null,
+      data: this._getFieldDefaults() as TData,
     };
+
+    // Join the group after the options are set; the group reads the state
+    const group = this._options.group;
+    this._options.group = null;
+
+    // Restore persisted state before the panel is first rendered
+    if (this._options.persist) {
+      const restored = loadPersistedState(this._options.persist, (error) => {
+        // Deferred so error handlers registered right after construction receive it
+        queueMicrotask(() => this._handleListenerError(error, 'migrate'));
+      });
+      if (restored) {
+        this._state = {
+          ...this._state,
+          ...restored,
+          data: { ...this._state.data, ...restored.data } as TData,
+        };
+      }
+    }
+    this._state = freezeCopy(this._state);
+    this._lastEmittedState = this._state;
+    this._setupHistory();
+
+    group?.add(this);
   }
 
   /**
@@ -75,16 +310,25 @@ export class PluginControl implements IControl {
     this._mapContainer = map.getContainer();
     this._container = this._createContainer();
     this._panel = this._createPanel();
+    this._renderContent();
+
+    this._applyTheme();
+    this._applyDirection();
 
-    // Append panel to map container for independent positioning (avoids overlap with other controls)
-    this._mapContainer.appendChild(this._panel);
+    // Place the panel according to the display mode
+    this._mountPanel();
+    this._updatePresentation();
 
     // Setup event listeners for panel positioning and click-outside
     this._setupEventListeners();
 
+    // Add the sources, layers and images registered before the control was added
+    this._managedResources.attach(map);
+
     // Set initial panel state
     if (!this._state.collapsed) {
       this._panel.classList.add('expanded');
+      this._options.group?.notifyExpand(this);
       // Update position after control is added to DOM
       requestAnimationFrame(() => {
         this._updatePanelPosition();
@@ -99,6 +343,9 @@ export class PluginControl implements IControl {
    * Implements the IControl interface.
    */
   onRemove(): void {
+    // Abort any resize or drag in progress
+    this._gestureCleanup?.();
+
     // Remove event listeners
     if (this._resizeHandler) {
       window.removeEventListener('resize', this._resizeHandler);
@@ -108,274 +355,2158 @@ export class PluginControl implements IControl {
       this._map.off('resize', this._mapResizeHandler);
       this._mapResizeHandler = null;
     }
-    if (this._clickOutsideHandler) {
-      document.removeEventListener('click', this._clickOutsideHandler);
-      this._clickOutsideHandler = null;
+    this._removeClickOutsideListener();
+    this._contentResizeObserver?.disconnect();
+    this._contentResizeObserver = null;
+    this._unwatchColorScheme();
+    if (this._shortcutHandler && this._mapContainer) {
+      this._mapContainer.removeEventListener('keydown', this._shortcutHandler);
+      this._shortcutHandler = null;
+    }
+
+    // End this control's interaction mode and remove managed sources, layers and images;
+    // the registrations are kept for the next add
+    if (this._map) {
+      InteractionModeManager.forMap(this._map).deactivate(this, 'remove');
     }
+    this._managedResources.detach();
+
+    // Tear down rendered content
+    this._clearContent();
 
-    // Remove panel from map container
-    this._panel?.parentNode?.removeChild(this._panel);
+    // Remove panel from its host
+    this._unmountPanel();
 
     // Remove button container from control stack
     this._container?.parentNode?.removeChild(this._container);
 
+    // Handlers are kept so they keep working if the control is added again
+    this._emit('remove');
+
     this._map = undefined;
     this._mapContainer = undefined;
     this._container = undefined;
+    this._toggleButton = undefined;
+    this._closeButton = undefined;
+    this._headerActions = undefined;
+    this._tooltip = undefined;
     this._panel = undefined;
-    this._eventHandlers.clear();
+    this._content = undefined;
+    this._sheet = false;
   }
 
   /**
-   * Gets the current state of the control.
+   * Gets the current state of the control. The state is frozen and only replaced
+   * by updates, so the same object is returned until the state changes.
    *
    * @returns The current plugin state
    */
-  getState(): PluginState {
-    return { ...this._state };
+  getState(): PluginState<TData> {
+    return this._state;
   }
 
   /**
-   * Updates the control state.
+   * Updates the control state. An object is deep-merged into the current state
+   * (arrays are replaced); a function receives the current state and returns the
+   * next one. Unchanged parts keep their identity, and nothing is emitted when
+   * the update changes nothing. The state is updated immediately; `statechange`
+   * is emitted according to the `scheduler` option.
+   *
+   * @param update - Partial state to merge, or a function returning the next state
    *
-   * @param newState - Partial state to merge with current state
+   * @example
+   * ```typescript
+   * control.setState({ data: { filters: { year: 2021 } } });
+   * control.setState((state) => ({ ...state, data: {} }));
+   * ```
    */
-  setState(newState: Partial<PluginState>): void {
-    this._state = { ...this._state, ...newState };
-    this._emit('statechange');
+  setState(update: PluginStateUpdate<TData> | PluginStateUpdater<TData>): void {
+    const next =
+      typeof update === 'function' ? update(this._state) : deepMerge(this._state, update);
+    if (next === this._state || isDeepEqual(next, this._state)) return;
+
+    this._state = freezeCopy(next);
+    this._handleStateChange();
   }
 
   /**
-   * Toggles the collapsed state of the control panel.
+   * Subscribes to a part of the state. The listener is called after a state
+   * change when the value at the path differs from its previous value.
+   *
+   * @param path - Dot-separated path into the state, e.g. `'data.filters'` or `'collapsed'`
+   * @param listener - Called with the new value, the previous value and the state
+   * @returns A function that removes the subscription
+   *
+   * @example
+   * ```typescript
+   * const unsubscribe = control.subscribe<string[]>('data.filters.tags', (tags) => {
+   *   applyTagFilter(tags);
+   * });
+   * ```
    */
-  toggle(): void {
-    this._state.collapsed = !this._state.collapsed;
+  subscribe<TValue = unknown>(
+    path: string,
+    listener: PluginStatePathListener<TValue, TData>
+  ): () => void {
+    const subscription: PathSubscription = {
+      path,
+      listener: listener as PluginStatePathListener<unknown, never>,
+    };
+    this._pathSubscriptions.add(subscription);
+    return () => {
+      this._pathSubscriptions.delete(subscription);
+    };
+  }
 
-    if (this._panel) {
-      if (this._state.collapsed) {
-        this._panel.classList.remove('expanded');
-        this._emit('collapse');
-      } else {
-        this._panel.classList.add('expanded');
-        this._updatePanelPosition();
-        this._emit('expand');
+  /**
+   * Groups state updates: `statechange` is emitted once, with the merged
+   * changed keys, after the callback returns. Batches can be nested.
+   *
+   * @param fn - The callback making the updates
+   * @returns The callback's return value
+   *
+   * @example
+   * ```typescript
+   * control.batch(() => {
+   *   control.setState({ data: { year: 2021 } });
+   *   control.setState({ panelWidth: 400 });
+   * });
+   * ```
+   */
+  batch<T>(fn: () => T): T {
+    this._batchDepth++;
+    try {
+      return fn();
+    } finally {
+      this._batchDepth--;
+      if (this._batchDepth === 0 && this._stateChangePending) {
+        this.flush();
       }
     }
+  }
+
+  /**
+   * Emits the pending `statechange` notification now instead of on the next
+   * microtask or animation frame. Useful in tests and before reading state
+   * derived in statechange handlers.
+   */
+  flush(): void {
+    this._cancelScheduledFlush?.();
+    this._cancelScheduledFlush = null;
+    if (!this._stateChangePending) return;
 
-    this._emit('statechange');
+    this._stateChangePending = false;
+    this._notifyStateChange();
   }
 
   /**
-   * Expands the control panel.
+   * Updates options at runtime. Options with a visible effect (title, class name,
+   * position, panel size, theme, labels, content, ...) are applied immediately;
+   * options read only when the control is added to a map (e.g. `draggable`,
+   * `resizable`, `keyboardShortcut`, `persist`) take effect on the next `onAdd`.
+   * Options set to `undefined` are ignored.
+   *
+   * @param options - The options to change
    */
-  expand(): void {
-    if (this._state.collapsed) {
-      this.toggle();
+  setOptions(options: Partial<PluginControlOptions<TData>>): void {
+    const {
+      position,
+      title,
+      className,
+      collapsed,
+      panelWidth,
+      panelHeight,
+      theme,
+      locale,
+      messages,
+      icon,
+      tooltip,
+      content,
+      fields,
+      layerManager,
+      inspector,
+      panelMode,
+      panelContainer,
+      group,
+      history,
+      ...rest
+    } = options;
+
+    for (const [key, value] of Object.entries(rest)) {
+      if (value !== undefined) {
+        (this._options as unknown as Record<string, unknown>)[key] = value;
+      }
+    }
+
+    if (title !== undefined) {
+      this._options.title = title;
+      const titleElement = this._panel?.querySelector(`#${this._panelId}-title`);
+      if (titleElement) titleElement.textContent = title;
+      this._renderTooltip();
+      this._renderBadge();
+    }
+    if (className !== undefined) {
+      const previous = this._options.className.split(/\s+/).filter(Boolean);
+      this._options.className = className;
+      this._container?.classList.remove(...previous);
+      this._container?.classList.add(...className.split(/\s+/).filter(Boolean));
+    }
+    if (tooltip !== undefined) {
+      this._options.tooltip = tooltip;
+      this._renderTooltip();
+    }
+    if (icon !== undefined) this.setIcon(icon);
+    if (theme !== undefined) this.setTheme(theme);
+    if (locale !== undefined || messages !== undefined) {
+      this.setLocale(locale ?? this._options.locale, messages);
+    }
+    if (group !== undefined) this.setGroup(group);
+
+    if (fields !== undefined) this.setFields(fields);
+    if (layerManager !== undefined) this.setLayerManager(layerManager);
+    if (inspector !== undefined) this.setInspector(inspector);
+    if (content !== undefined) this.setContent(content);
+
+    if (panelMode !== undefined || panelContainer !== undefined) {
+      this.setPanelMode(panelMode ?? this._options.panelMode, panelContainer);
+    }
+    if (position !== undefined) this.setPosition(position);
+    if (history !== undefined) {
+      this._options.history = history;
+      this._setupHistory();
+    }
+
+    const sizeChanged =
+      (panelWidth !== undefined && panelWidth !== this._state.panelWidth) ||
+      (panelHeight !== undefined && panelHeight !== this._state.panelHeight);
+    if (panelWidth !== undefined) this._options.panelWidth = panelWidth;
+    if (panelHeight !== undefined) this._options.panelHeight = panelHeight;
+    if (sizeChanged) {
+      this.setState({
+        panelWidth: panelWidth ?? this._state.panelWidth,
+        panelHeight: panelHeight === undefined ? this._state.panelHeight : panelHeight,
+      });
+    }
+
+    if (collapsed !== undefined && collapsed !== this._state.collapsed) {
+      if (collapsed) {
+        this.collapse();
+      } else {
+        this.expand();
+      }
     }
   }
 
   /**
-   * Collapses the control panel.
+   * Moves the control to another corner of the map without re-adding it.
+   *
+   * @param position - The corner to move to
    */
-  collapse(): void {
+  setPosition(position: PluginControlPosition): void {
+    this._options.position = position;
+
+    const container = this._container;
+    const corner = this._mapContainer?.querySelector(`.maplibregl-ctrl-${position}`);
+    if (!container || !corner || container.parentElement === corner) return;
+
+    // Insert the same way map.addControl() does
+    if (position.startsWith('bottom')) {
+      corner.insertBefore(container, corner.firstChild);
+    } else {
+      corner.appendChild(container);
+    }
     if (!this._state.collapsed) {
-      this.toggle();
+      this._updatePanelPosition();
     }
   }
 
   /**
-   * Registers an event handler.
+   * Gets the corner of the map the control is placed in.
    *
-   * @param event - The event type to listen for
-   * @param handler - The callback function
+   * @returns The position
    */
-  on(event: PluginControlEvent, handler: PluginControlEventHandler): void {
-    if (!this._eventHandlers.has(event)) {
-      this._eventHandlers.set(event, new Set());
-    }
-    this._eventHandlers.get(event)!.add(handler);
+  getPosition(): PluginControlPosition {
+    return this._getControlPosition();
   }
 
   /**
-   * Removes an event handler.
+   * Sets the content displayed inside the panel.
    *
-   * @param event - The event type
-   * @param handler - The callback function to remove
+   * @param content - An element, an HTML string, or a render callback.
+   *   Pass `null` to restore the placeholder.
    */
-  off(event: PluginControlEvent, handler: PluginControlEventHandler): void {
-    this._eventHandlers.get(event)?.delete(handler);
+  setContent(content: PluginControlContent<TData> | null): void {
+    this._options.content = content as PluginControlContent | null;
+    this._renderContent();
   }
 
   /**
-   * Gets the map instance.
+   * Sets the form fields rendered in the panel when no content is set.
+   * Missing values in `PluginState.data` are initialized from the field defaults
+   * through `setState()`, so the change is emitted, persisted and recorded.
    *
-   * @returns The MapLibre GL map instance or undefined if not added to a map
+   * @param fields - The field schema
    */
-  getMap(): MapLibreMap | undefined {
-    return this._map;
+  setFields(fields: PluginControlField[]): void {
+    this._options.fields = fields;
+    this._destroyForm();
+    const defaults = this._getFieldDefaults();
+    this.setState((state) => ({ ...state, data: { ...defaults, ...state.data } as TData }));
+    this._renderContent();
   }
 
   /**
-   * Gets the control container element.
+   * Enables, reconfigures or disables the built-in layer manager.
    *
-   * @returns The container element or undefined if not added to a map
+   * @param layerManager - `true` or filter options to show the layer manager, `false` to hide it
    */
-  getContainer(): HTMLElement | undefined {
-    return this._container;
+  setLayerManager(layerManager: boolean | LayerManagerOptions): void {
+    this._options.layerManager = layerManager;
+    this._destroyLayerManager();
+    this._renderContent();
   }
 
   /**
-   * Emits an event to all registered handlers.
+   * Enables, reconfigures or disables the built-in feature inspector. While the
+   * panel is open, the inspector runs as the control's `'inspect'` interaction
+   * mode: clicking the map lists the properties of the features at that point.
    *
-   * @param event - The event type to emit
+   * @param inspector - `true` or inspector options to show the inspector, `false` to hide it
    */
-  private _emit(event: PluginControlEvent): void {
-    const handlers = this._eventHandlers.get(event);
-    if (handlers) {
-      const eventData = { type: event, state: this.getState() };
-      handlers.forEach((handler) => handler(eventData));
-    }
+  setInspector(inspector: boolean | FeatureInspectorOptions): void {
+    this._options.inspector = inspector;
+    this._destroyInspector();
+    this._renderContent();
   }
 
   /**
-   * Creates the main container element for the control.
-   * Contains a toggle button (29x29) matching navigation control size.
+   * Gets the feature shown by the feature inspector.
    *
-   * @returns The container element
+   * @returns The feature, or null if the inspector is disabled or shows none
    */
-  private _createContainer(): HTMLElement {
-    const container = document.createElement('div');
-    container.className = `maplibregl-ctrl maplibregl-ctrl-group plugin-control${
-      this._options.className ? ` ${this._options.className}` : ''
-    }`;
-
-    // Create toggle button (29x29 to match navigation control)
-    const toggleBtn = document.createElement('button');
-    toggleBtn.className = 'plugin-control-toggle';
-    toggleBtn.type = 'button';
-    toggleBtn.setAttribute('aria-label', this._options.title);
-    toggleBtn.innerHTML = `
-      <span class="plugin-control-icon">
-        <svg viewBox="0 0 24 24" width="22" height="22" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
-          <rect x="3" y="3" width="7" height="7" rx="1"/>
-          <rect x="14" y="3" width="7" height="7" rx="1"/>
-          <rect x="3" y="14" width="7" height="7" rx="1"/>
-          <rect x="14" y="14" width="7" height="7" rx="1"/>
-        </svg>
-      </span>
-    `;
-    toggleBtn.addEventListener('click', () => this.toggle());
+  getInspectedFeature(): MapGeoJSONFeature | null {
+    return this._inspector?.getSelectedFeature() ?? null;
+  }
 
-    container.appendChild(toggleBtn);
+  /**
+   * Adds a source that the control owns. It is added again after style changes
+   * such as `map.setStyle()` and removed when the control is removed. Sources
+   * can be registered before the control is added to a map.
+   *
+   * @param id - The source id
+   * @param source - The source specification
+   */
+  addManagedSource(id: string, source: SourceSpecification): void {
+    this._managedResources.addSource(id, source);
+  }
 
-    return container;
+  /**
+   * Adds a layer that the control owns. It is added again after style changes,
+   * in registration order, and removed when the control is removed.
+   *
+   * @param layer - The layer specification
+   * @param beforeId - Id of the layer to insert before. The layer goes on top
+   *   when omitted or when that layer does not exist in the current style.
+   */
+  addManagedLayer(layer: AddLayerObject, beforeId?: string): void {
+    this._managedResources.addLayer(layer, beforeId);
   }
 
   /**
-   * Creates the panel element with header and content areas.
-   * Panel is positioned as a dropdown below the toggle button.
+   * Adds an image that the control owns, e.g. an icon used by a managed layer.
+   * It is added again after style changes and removed when the control is removed.
    *
-   * @returns The panel element
+   * @param id - The image id
+   * @param image - The image
+   * @param options - Image metadata such as `pixelRatio` or `sdf`
    */
-  private _createPanel(): HTMLElement {
-    const panel = document.createElement('div');
-    panel.className = 'plugin-control-panel';
-    panel.style.width = `${this._options.panelWidth}px`;
+  addManagedImage(id: string, image: ManagedImage, options?: ManagedImageOptions): void {
+    this._managedResources.addImage(id, image, options);
+  }
 
-    // Create header with title and close button
-    const header = document.createElement('div');
-    header.className = 'plugin-control-header';
+  /**
+   * Removes a managed source from the map and the registry, together with the
+   * managed layers that use it.
+   *
+   * @param id - The source id
+   */
+  removeManagedSource(id: string): void {
+    this._managedResources.removeSource(id);
+  }
 
-    const title = document.createElement('span');
-    title.className = 'plugin-control-title';
-    title.textContent = this._options.title;
+  /**
+   * Removes a managed layer from the map and the registry.
+   *
+   * @param id - The layer id
+   */
+  removeManagedLayer(id: string): void {
+    this._managedResources.removeLayer(id);
+  }
 
-    const closeBtn = document.createElement('button');
-    closeBtn.className = 'plugin-control-close';
-    closeBtn.type = 'button';
-    closeBtn.setAttribute('aria-label', 'Close panel');
-    closeBtn.innerHTML = '&times;';
-    closeBtn.addEventListener('click', () => this.collapse());
+  /**
+   * Removes a managed image from the map and the registry.
+   *
+   * @param id - The image id
+   */
+  removeManagedImage(id: string): void {
+    this._managedResources.removeImage(id);
+  }
 
-    header.appendChild(title);
-    header.appendChild(closeBtn);
+  /**
+   * Gets the ids of the managed layers in the order they are added.
+   *
+   * @returns The layer ids
+   */
+  getManagedLayerIds(): string[] {
+    return this._managedResources.getLayerIds();
+  }
 
-    // Create content area
-    const content = document.createElement('div');
-    content.className = 'plugin-control-content';
-    content.innerHTML = `
-      <p class="plugin-control-placeholder">
-        Add your custom plugin content here.
-      </p>
-    `;
+  /**
+   * Starts an interaction mode on the map, e.g. "click on the map to pick a
+   * location". Only one mode is active per map: starting a mode ends the mode
+   * of any other control on the same map. While active, the cursor is set, the
+   * given map handlers are disabled and map clicks go to `options.onClick`.
+   *
+   * @param mode - Name of the mode, reported in `modeenter` and `modeexit`
+   * @param options - Cursor, handlers to disable, Escape handling and click callback
+   * @returns False if the control is not added to a map
+   *
+   * @example
+   * ```typescript
+   * control.activateMode('pick', {
+   *   disableHandlers: ['doubleClickZoom'],
+   *   onClick: (e) => {
+   *     control.setState({ data: { location: e.lngLat.toArray() } });
+   *     control.deactivateMode();
+   *   },
+   * });
+   * ```
+   */
+  activateMode(mode: string, options?: PluginControlModeOptions): boolean {
+    if (!this._map) return false;
 
-    panel.appendChild(header);
-    panel.appendChild(content);
+    InteractionModeManager.forMap(this._map).activate({
+      name: mode,
+      owner: this,
+      options,
+      onExit: (reason) => this._emit('modeexit', { mode, reason }),
+    });
+    this._emit('modeenter', { mode });
+    return true;
+  }
 
-    return panel;
+  /**
+   * Ends this control's interaction mode. Modes started by other controls are not affected.
+   */
+  deactivateMode(): void {
+    if (this._map) {
+      InteractionModeManager.forMap(this._map).deactivate(this);
+    }
   }
 
   /**
-   * Setup event listeners for panel positioning and click-outside behavior.
+   * Gets the interaction mode started by this control.
+   *
+   * @returns The mode name, or null if this control has no active mode
    */
-  private _setupEventListeners(): void {
-    // Click outside to close (check both container and panel since they're now separate)
-    this._clickOutsideHandler = (e: MouseEvent) => {
-      const target = e.target as Node;
-      if (
-        this._container &&
-        this._panel &&
-        !this._container.contains(target) &&
-        !this._panel.contains(target)
-      ) {
-        this.collapse();
-      }
-    };
-    document.addEventListener('click', this._clickOutsideHandler);
+  getActiveMode(): string | null {
+    return this._map ? InteractionModeManager.forMap(this._map).getActiveMode(this) : null;
+  }
 
-    // Update panel position on window resize
-    this._resizeHandler = () => {
-      if (!this._state.collapsed) {
-        this._updatePanelPosition();
-      }
-    };
-    window.addEventListener('resize', this._resizeHandler);
+  /**
+   * Switches how the panel is displayed. The panel element, its content and
+   * the control state are kept.
+   *
+   * @param mode - `'floating'`, `'docked-left'`, `'docked-right'` or `'external'`
+   * @param container - Element or selector to render into for the `'external'` mode
+   */
+  setPanelMode(mode: PluginControlPanelMode, container?: HTMLElement | string | null): void {
+    if (container !== undefined) {
+      this._options.panelContainer = container;
+    }
+    this._options.panelMode = mode;
+    if (!this._panel) return;
 
-    // Update panel position on map resize (e.g., sidebar toggle)
-    this._mapResizeHandler = () => {
-      if (!this._state.collapsed) {
-        this._updatePanelPosition();
-      }
-    };
-    this._map?.on('resize', this._mapResizeHandler);
+    this._unmountPanel();
+    this._mountPanel();
+    this._updatePresentation();
+    this._applyPanelSize();
+    if (!this._state.collapsed) {
+      this._updatePanelPosition();
+    }
   }
 
   /**
-   * Detect which corner the control is positioned in.
+   * Gets the panel display mode.
    *
-   * @returns The position: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right'
+   * @returns The panel mode
    */
-  private _getControlPosition(): 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' {
-    const parent = this._container?.parentElement;
-    if (!parent) return 'top-right'; // Default
-
-    if (parent.classList.contains('maplibregl-ctrl-top-left')) return 'top-left';
-    if (parent.classList.contains('maplibregl-ctrl-top-right')) return 'top-right';
-    if (parent.classList.contains('maplibregl-ctrl-bottom-left')) return 'bottom-left';
-    if (parent.classList.contains('maplibregl-ctrl-bottom-right')) return 'bottom-right';
+  getPanelMode(): PluginControlPanelMode {
+    return this._options.panelMode;
+  }
 
-    return 'top-right'; // Default
+  /**
+   * Checks whether the panel is currently presented as a bottom sheet.
+   *
+   * @returns True if the map is narrower than `mobileBreakpoint`
+   */
+  isSheet(): boolean {
+    return this._sheet;
   }
 
   /**
-   * Update the panel position based on button location and control corner.
-   * Positions the panel next to the button, expanding in the appropriate direction.
+   * Moves the bottom sheet to a snap point.
+   *
+   * @param snap - `'peek'`, `'half'` or `'full'`
    */
-  private _updatePanelPosition(): void {
-    if (!this._container || !this._panel || !this._mapContainer) return;
+  setSheetSnap(snap: PluginControlSheetSnap): void {
+    this._sheetSnap = snap;
+    if (this._panel) {
+      this._panel.dataset.sheetSnap = snap;
+      this._applyPanelSize();
+    }
+  }
 
-    // Get the toggle button (first child of container)
-    const button = this._container.querySelector('.plugin-control-toggle');
+  /**
+   * Gets the snap point of the bottom sheet.
+   *
+   * @returns The snap point
+   */
+  getSheetSnap(): PluginControlSheetSnap {
+    return this._sheetSnap;
+  }
+
+  /**
+   * Moves the control into a group, or out of its group when `null`.
+   *
+   * @param group - The group to join, or null to leave the current group
+   */
+  setGroup(group: PluginControlGroup | null): void {
+    const current = this._options.group;
+    if (current === group) return;
+
+    this._options.group = group;
+    current?.remove(this);
+    group?.add(this);
+
+    // Groups share one click-outside listener; ungrouped controls need their own
+    if (this._map) {
+      if (group) {
+        this._removeClickOutsideListener();
+      } else {
+        this._addClickOutsideListener();
+      }
+    }
+  }
+
+  /**
+   * Gets the group the control belongs to.
+   *
+   * @returns The group, or null if the control is not grouped
+   */
+  getGroup(): PluginControlGroup | null {
+    return this._options.group;
+  }
+
+  /**
+   * Checks whether a node is part of the control's button or panel.
+   *
+   * @param node - The node to check
+   * @returns True if the node is inside the control
+   */
+  contains(node: Node | null): boolean {
+    if (!node) return false;
+    return Boolean(this._container?.contains(node) || this._panel?.contains(node));
+  }
+
+  /**
+   * Collapses the panel when a document click lands outside the control.
+   * Called by the control's own listener or, for grouped controls, by the group.
+   *
+   * @param e - The document click event
+   */
+  handleDocumentClick(e: MouseEvent): void {
+    if (this._ignoreNextClick || !this._container || !this._panel) return;
+    // Docked and external panels are part of the page layout and stay open;
+    // bottom sheets are dismissed by swiping them down
+    if (!this._isFloating()) return;
+    // Map clicks belong to the active interaction mode, e.g. picking a feature
+    if (this.getActiveMode() !== null && e.target === this._map?.getCanvas()) return;
+    if (!this.contains(e.target as Node)) {
+      this.collapse();
+    }
+  }
+
+  /**
+   * Sets the toggle button icon.
+   *
+   * @param icon - An SVG string, an element, an image URL, or `null` for the default icon
+   */
+  setIcon(icon: string | HTMLElement | null): void {
+    this._options.icon = icon;
+    this._renderIcon();
+  }
+
+  /**
+   * Shows a badge on the toggle button, e.g. the number of active filters.
+   *
+   * @param badge - A count or short label, `true` for a dot, or `null`/`false`/`0` to hide it
+   */
+  setBadge(badge: PluginControlBadge): void {
+    this._badge = badge;
+    this._renderBadge();
+  }
+
+  /**
+   * Gets the badge currently shown on the toggle button.
+   *
+   * @returns The badge value
+   */
+  getBadge(): PluginControlBadge {
+    return this._badge;
+  }
+
+  /**
+   * Sets the locale used for built-in labels and re-renders them.
+   *
+   * @param locale - The locale, e.g. `'de'` or `'ar'`
+   * @param messages - Optional custom messages keyed by locale, merged with the existing ones
+   */
+  setLocale(locale: string, messages?: Record<string, Partial<PluginControlMessages>>): void {
+    this._options.locale = locale;
+    if (messages) {
+      const merged = { ...this._options.messages };
+      for (const [code, catalogue] of Object.entries(messages)) {
+        merged[code] = { ...merged[code], ...catalogue };
+      }
+      this._options.messages = merged;
+    }
+    this._translate = this._createTranslator();
+
+    this._closeButton?.setAttribute('aria-label', this._translate('closePanel'));
+    this._applyDirection();
+
+    // Rebuild built-in views so they pick up the new translator
+    this._destroyForm();
+    this._destroyLayerManager();
+    this._destroyInspector();
+    this._renderContent();
+  }
+
+  /**
+   * Gets the current locale.
+   *
+   * @returns The locale
+   */
+  getLocale(): string {
+    return this._options.locale;
+  }
+
+  /**
+   * Sets the color theme.
+   *
+   * @param theme - `'light'`, `'dark'`, or `'auto'` to follow the user's color scheme preference
+   */
+  setTheme(theme: PluginControlTheme): void {
+    this._options.theme = theme;
+    this._applyTheme();
+  }
+
+  /**
+   * Gets the theme currently applied, resolving `'auto'` to `'light'` or `'dark'`.
+   *
+   * @returns The applied theme
+   */
+  getTheme(): 'light' | 'dark' {
+    if (this._options.theme !== 'auto') return this._options.theme;
+    return this._prefersDark() ? 'dark' : 'light';
+  }
+
+  /**
+   * Removes the persisted state from storage.
+   * The in-memory state is left unchanged.
+   */
+  clearPersistedState(): void {
+    if (this._options.persist) {
+      clearPersistedState(this._options.persist);
+    }
+  }
+
+  /**
+   * Restores the state from before the last recorded change.
+   * Requires the `history` option.
+   *
+   * @returns True if a step was undone
+   */
+  undo(): boolean {
+    return this._restoreHistory('undo');
+  }
+
+  /**
+   * Re-applies the last change undone with `undo()`.
+   * Requires the `history` option.
+   *
+   * @returns True if a step was redone
+   */
+  redo(): boolean {
+    return this._restoreHistory('redo');
+  }
+
+  /**
+   * Checks whether there is a change to undo.
+   *
+   * @returns True if `undo()` would change the state
+   */
+  canUndo(): boolean {
+    return this._history?.canUndo() ?? false;
+  }
+
+  /**
+   * Checks whether there is a change to redo.
+   *
+   * @returns True if `redo()` would change the state
+   */
+  canRedo(): boolean {
+    return this._history?.canRedo() ?? false;
+  }
+
+  /**
+   * Removes all undo and redo steps. The state is left unchanged.
+   */
+  clearHistory(): void {
+    if (!this._history) return;
+    this._history.clear();
+    this._emit('historychange', { canUndo: false, canRedo: false });
+  }
+
+  /**
+   * Toggles the collapsed state of the control panel.
+   */
+  toggle(): void {
+    this._state = freezeCopy({ ...this._state, collapsed: !this._state.collapsed });
+
+    if (this._panel) {
+      this._toggleButton?.setAttribute('aria-expanded', String(!this._state.collapsed));
+
+      if (this._state.collapsed) {
+        // Return focus to the toggle button if it was inside the panel being hidden
+        const hadFocus = this._panel.contains(document.activeElement);
+        this._panel.classList.remove('expanded');
+        this._resizeMapIfDocked();
+        if (hadFocus && this._options.autoFocus) {
+          this._toggleButton?.focus();
+        }
+        this._emit('collapse');
+        this._options.group?.notifyCollapse(this);
+      } else {
+        this._panel.classList.add('expanded');
+        this._resizeMapIfDocked();
+        this._updatePanelPosition();
+        if (this._options.autoFocus && this._toggledByUser) {
+          this._panel.focus({ preventScroll: true });
+        }
+        this._emit('expand');
+        this._options.group?.notifyExpand(this);
+      }
+    }
+
+    this._syncInspectorMode();
+    this._handleStateChange();
+  }
+
+  /**
+   * Expands the control panel.
+   */
+  expand(): void {
+    if (this._state.collapsed) {
+      this.toggle();
+    }
+  }
+
+  /**
+   * Collapses the control panel.
+   */
+  collapse(): void {
+    if (!this._state.collapsed) {
+      this.toggle();
+    }
+  }
+
+  /**
+   * Registers an event handler.
+   *
+   * @param event - The event type to listen for
+   * @param handler - The callback function
+   */
+  on<K extends keyof TEvents & string>(event: K, handler: (event: TEvents[K]) => void): void {
+    if (!this._eventHandlers.has(event)) {
+      this._eventHandlers.set(event, new Set());
+    }
+    this._eventHandlers.get(event)!.add(handler as (event: PluginControlEventBase) => void);
+  }
+
+  /**
+   * Registers an event handler that is removed after its first call.
+   *
+   * @param event - The event type to listen for
+   * @param handler - The callback function
+   */
+  once<K extends keyof TEvents & string>(event: K, handler: (event: TEvents[K]) => void): void {
+    const wrapper = (data: TEvents[K]) => {
+      this.off(event, handler);
+      handler(data);
+    };
+    if (!this._onceHandlers.has(event)) {
+      this._onceHandlers.set(event, new WeakMap());
+    }
+    this._onceHandlers.get(event)!.set(handler, wrapper as (event: PluginControlEventBase) => void);
+    this.on(event, wrapper);
+  }
+
+  /**
+   * Removes an event handler.
+   *
+   * @param event - The event type
+   * @param handler - The callback function to remove
+   */
+  off<K extends keyof TEvents & string>(event: K, handler: (event: TEvents[K]) => void): void {
+    const handlers = this._eventHandlers.get(event);
+    handlers?.delete(handler as (event: PluginControlEventBase) => void);
+
+    const wrappers = this._onceHandlers.get(event);
+    const wrapper = wrappers?.get(handler);
+    if (wrapper) {
+      handlers?.delete(wrapper);
+      wrappers!.delete(handler);
+    }
+  }
+
+  /**
+   * Gets the map instance.
+   *
+   * @returns The MapLibre GL map instance or undefined if not added to a map
+   */
+  getMap(): MapLibreMap | undefined {
+    return this._map;
+  }
+
+  /**
+   * Gets the control container element.
+   *
+   * @returns The container element or undefined if not added to a map
+   */
+  getContainer(): HTMLElement | undefined {
+    return this._container;
+  }
+
+  /**
+   * Gets the panel element.
+   *
+   * @returns The panel element or undefined if not added to a map
+   */
+  getPanel(): HTMLElement | undefined {
+    return this._panel;
+  }
+
+  /**
+   * Gets the panel content element.
+   *
+   * @returns The content element or undefined if not added to a map
+   */
+  getContentElement(): HTMLElement | undefined {
+    return this._content;
+  }
+
+  /**
+   * Gets the header element that holds custom actions next to the close button.
+   *
+   * @returns The header actions element or undefined if not added to a map
+   */
+  getHeaderActionsElement(): HTMLElement | undefined {
+    return this._headerActions;
+  }
+
+  /**
+   * Emits an event to all registered handlers. Subclasses can emit custom
+   * events declared in their event map.
+   *
+   * @param event - The event type to emit
+   * @param extra - Payload fields besides `type` and `state`
+   */
+  protected emit<K extends keyof TEvents & string>(
+    event: K,
+    extra?: Omit<TEvents[K], 'type' | 'state'>
+  ): void {
+    this._dispatch(event, extra);
+  }
+
+  /**
+   * Emits a built-in event.
+   *
+   * @param event - The event type to emit
+   * @param extra - Payload fields besides `type` and `state`
+   */
+  private _emit<K extends PluginControlEvent>(
+    event: K,
+    extra?: Omit<PluginControlEventMap<TData>[K], 'type' | 'state'>
+  ): void {
+    this._dispatch(event, extra);
+  }
+
+  /**
+   * Calls the handlers registered for an event with the payload.
+   *
+   * @param event - The event type
+   * @param extra - Payload fields besides `type` and `state`
+   */
+  private _dispatch(event: string, extra?: object): void {
+    const eventData: PluginControlEventBase = { ...extra, type: event, state: this.getState() };
+
+    // A throwing handler must not stop the others or break the UI code that emitted the event
+    callHandlers(this._eventHandlers.get(event) ?? [], eventData, (error) =>
+      this._handleListenerError(error, event)
+    );
+
+    this._forwardToMap(eventData);
+  }
+
+  /**
+   * Reports an error thrown by an event handler or a user callback through the
+   * `error` event, or the console if there are no error handlers.
+   *
+   * @param error - The thrown value
+   * @param event - The event whose handler threw, or the name of the callback
+   */
+  private _handleListenerError(error: unknown, event: string): void {
+    if (event === 'error' || !this._eventHandlers.get('error')?.size) {
+      console.error(`PluginControl: "${event}" handler threw`, error);
+      return;
+    }
+    this._emit('error', { error, event });
+  }
+
+  /**
+   * Fires an event on the map when `forwardEvents` is enabled, e.g. `plugincontrol.expand`.
+   *
+   * @param eventData - The event payload
+   */
+  private _forwardToMap(eventData: PluginControlEventBase): void {
+    const forward = this._options.forwardEvents;
+    if (!forward || !this._map) return;
+
+    const prefix = forward === true ? 'plugincontrol' : forward;
+    this._map.fire(`${prefix}.${eventData.type}`, { ...eventData, control: this });
+  }
+
+  /**
+   * Updates the panel layout and schedules the statechange notification.
+   */
+  private _handleStateChange(): void {
+    this._form?.sync();
+    this._applyPanelSize();
+    if (this._panel && !this._state.collapsed) {
+      this._updatePanelPosition();
+    }
+
+    this._stateChangePending = true;
+    if (this._batchDepth > 0) return;
+    if (this._options.scheduler === 'sync') {
+      this.flush();
+    } else {
+      this._scheduleFlush();
+    }
+  }
+
+  /**
+   * Schedules `flush()` for the next microtask or animation frame, unless already scheduled.
+   */
+  private _scheduleFlush(): void {
+    if (this._cancelScheduledFlush) return;
+
+    const run = () => {
+      this._cancelScheduledFlush = null;
+      this.flush();
+    };
+    if (this._options.scheduler === 'frame' && typeof requestAnimationFrame === 'function') {
+      const id = requestAnimationFrame(run);
+      this._cancelScheduledFlush = () => cancelAnimationFrame(id);
+    } else {
+      let cancelled = false;
+      queueMicrotask(() => {
+        if (!cancelled) run();
+      });
+      this._cancelScheduledFlush = () => {
+        cancelled = true;
+      };
+    }
+  }
+
+  /**
+   * Re-renders callback content, persists the state and notifies statechange
+   * listeners, path subscriptions and the history about all changes since the
+   * last notification.
+   */
+  private _notifyStateChange(): void {
+    const previousState = this._lastEmittedState;
+    const state = this._state;
+    const changedKeys = [...new Set([...Object.keys(previousState), ...Object.keys(state)])].filter(
+      (key) =>
+        !isDeepEqual(
+          previousState[key as keyof PluginState<TData>],
+          state[key as keyof PluginState<TData>]
+        )
+    ) as (keyof PluginState)[];
+    const previousData: PluginStateData = previousState.data ?? {};
+    const data: PluginStateData = state.data ?? {};
+    const changedDataKeys = [...new Set([...Object.keys(previousData), ...Object.keys(data)])].filter(
+      (key) => !isDeepEqual(previousData[key], data[key])
+    );
+
+    this._lastEmittedState = state;
+    // Changes that cancelled each other out are not reported
+    if (changedKeys.length === 0) return;
+
+    if (typeof this._options.content === 'function') {
+      this._renderContent();
+    }
+    if (this._options.persist) {
+      savePersistedState(this._options.persist, state);
+    }
+    this._emit('statechange', { previousState, changedKeys, changedDataKeys });
+    this._notifyPathSubscriptions(previousState, state);
+    this._recordHistory(previousState, state);
+  }
+
+  /**
+   * Creates or removes the undo/redo history according to the `history` option.
+   * Existing steps are discarded.
+   */
+  private _setupHistory(): void {
+    const history = this._options.history;
+    const hadHistory = this._history?.canUndo() || this._history?.canRedo();
+    this._history = null;
+
+    if (history) {
+      this._historyOptions = {
+        ...DEFAULT_HISTORY_OPTIONS,
+        ...(history === true ? {} : history),
+      };
+      this._history = new StateHistory(
+        this._historyOptions.limit,
+        this._historyOptions.coalesceDelay
+      );
+    }
+    if (hadHistory) {
+      this._emit('historychange', { canUndo: false, canRedo: false });
+    }
+  }
+
+  /**
+   * Picks the state keys recorded by the history.
+   *
+   * @param state - The state to pick from
+   * @returns The recorded part of the state
+   */
+  private _getHistorySnapshot(state: PluginState<TData>): Partial<PluginState<TData>> {
+    const snapshot: Partial<PluginState<TData>> = {};
+    for (const key of this._historyOptions.keys) {
+      (snapshot as Record<string, unknown>)[key] = state[key];
+    }
+    return snapshot;
+  }
+
+  /**
+   * Records a state change in the history unless it only touched keys that
+   * are not recorded or it was made by `undo()`/`redo()`.
+   *
+   * @param previousState - The state before the change
+   * @param state - The state after the change
+   */
+  private _recordHistory(previousState: PluginState<TData>, state: PluginState<TData>): void {
+    if (!this._history || this._restoringHistory) return;
+    const changed = this._historyOptions.keys.some(
+      (key) => !isDeepEqual(previousState[key], state[key])
+    );
+    if (!changed) return;
+
+    const history = this._history;
+    if (history.record(this._getHistorySnapshot(previousState))) {
+      this._emit('historychange', { canUndo: history.canUndo(), canRedo: history.canRedo() });
+    }
+  }
+
+  /**
+   * Restores a snapshot from the history.
+   *
+   * @param direction - Whether to undo or redo
+   * @returns True if a snapshot was restored
+   */
+  private _restoreHistory(direction: 'undo' | 'redo'): boolean {
+    const history = this._history;
+    if (!history) return false;
+
+    // Record pending changes first so they can be undone as well
+    this.flush();
+    const current = this._getHistorySnapshot(this._state);
+    const snapshot = direction === 'undo' ? history.undo(current) : history.redo(current);
+    if (!snapshot) return false;
+
+    this._restoringHistory = true;
+    try {
+      this.setState((state) => ({ ...state, ...snapshot }));
+      this.flush();
+    } finally {
+      this._restoringHistory = false;
+    }
+    this._emit('historychange', { canUndo: history.canUndo(), canRedo: history.canRedo() });
+    return true;
+  }
+
+  /**
+   * Undoes or redoes on Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z and Ctrl/Cmd+Y when the
+   * history shortcuts are enabled. Text fields keep their native undo.
+   *
+   * @param e - The keydown event
+   * @returns True if the event was handled
+   */
+  private _handleHistoryShortcut(e: KeyboardEvent): boolean {
+    if (!this._history || !this._historyOptions.keyboard || isTextEditable(e.target)) {
+      return false;
+    }
+
+    // "Mod+Z" also matches with Shift, so check redo first
+    const redo = matchesShortcut(e, 'Mod+Shift+Z') || matchesShortcut(e, 'Mod+Y');
+    if (!redo && !matchesShortcut(e, 'Mod+Z')) return false;
+
+    e.preventDefault();
+    if (redo) {
+      this.redo();
+    } else {
+      this.undo();
+    }
+    return true;
+  }
+
+  /**
+   * Calls the path subscriptions whose value differs between two states.
+   *
+   * @param previousState - The state before the change
+   * @param state - The state after the change
+   */
+  private _notifyPathSubscriptions(
+    previousState: PluginState<TData>,
+    state: PluginState<TData>
+  ): void {
+    for (const { path, listener } of [...this._pathSubscriptions]) {
+      const previousValue = getValueAtPath(previousState, path);
+      const value = getValueAtPath(state, path);
+      if (isDeepEqual(previousValue, value)) continue;
+
+      try {
+        (listener as PluginStatePathListener<unknown, TData>)(value, previousValue, state);
+      } catch (error) {
+        this._handleListenerError(error, 'statechange');
+      }
+    }
+  }
+
+  /**
+   * Renders the configured content and watches the result for size changes.
+   */
+  private _renderContent(): void {
+    this._renderContentArea();
+    this._observeContentSize();
+  }
+
+  /**
+   * Renders the configured content into the panel content area.
+   */
+  private _renderContentArea(): void {
+    if (!this._content || !this._map) return;
+
+    const content = this._options.content;
+    if (content === null && this._options.layerManager) {
+      this._destroyForm();
+      this._destroyInspector();
+      this._renderLayerManager();
+      return;
+    }
+    this._destroyLayerManager();
+
+    if (content === null && this._options.inspector) {
+      this._destroyForm();
+      this._renderInspector();
+      return;
+    }
+    this._destroyInspector();
+
+    if (content === null && this._options.fields.length > 0) {
+      this._renderForm();
+      return;
+    }
+    this._destroyForm();
+
+    const rendered =
+      typeof content === 'function' ? content(this, this._map, this.getState()) : content;
+
+    if (rendered === undefined && typeof content === 'function') {
+      // The callback managed the content area itself
+      return;
+    }
+
+    if (rendered instanceof HTMLElement) {
+      if (this._content.childNodes.length === 1 && this._content.firstChild === rendered) {
+        return;
+      }
+      this._content.replaceChildren(rendered);
+    } else if (typeof rendered === 'string') {
+      this._content.innerHTML = rendered;
+    } else {
+      const placeholder = document.createElement('p');
+      placeholder.className = 'plugin-control-placeholder';
+      placeholder.textContent = this._translate('placeholder');
+      this._content.replaceChildren(placeholder);
+    }
+  }
+
+  /**
+   * Removes any rendered content from the panel content area.
+   */
+  private _clearContent(): void {
+    this._destroyForm();
+    this._destroyLayerManager();
+    this._destroyInspector();
+    this._content?.replaceChildren();
+  }
+
+  /**
+   * Renders the form built from the configured fields into the content area.
+   */
+  private _renderForm(): void {
+    if (!this._content) return;
+
+    if (!this._form) {
+      this._form = new FormRenderer(this._options.fields, {
+        getState: () => this.getState(),
+        onChange: (key, value) => this._handleFieldChange(key, value),
+        translate: this._translate,
+      });
+    }
+    this._content.replaceChildren(this._form.getElement());
+  }
+
+  /**
+   * Destroys the rendered form, if any.
+   */
+  private _destroyForm(): void {
+    this._form?.destroy();
+    this._form = undefined;
+  }
+
+  /**
+   * Renders the layer manager into the content area.
+   */
+  private _renderLayerManager(): void {
+    if (!this._content || !this._map) return;
+
+    if (!this._layerManager) {
+      const options = this._options.layerManager === true ? {} : this._options.layerManager || {};
+      this._layerManager = new LayerManager(this._map, options, this._translate);
+    }
+    this._content.replaceChildren(this._layerManager.getElement());
+  }
+
+  /**
+   * Destroys the layer manager, if any.
+   */
+  private _destroyLayerManager(): void {
+    this._layerManager?.destroy();
+    this._layerManager = undefined;
+  }
+
+  /**
+   * Renders the feature inspector into the content area.
+   */
+  private _renderInspector(): void {
+    if (!this._content || !this._map) return;
+
+    if (!this._inspector) {
+      const options = this._options.inspector === true ? {} : this._options.inspector || {};
+      this._inspector = new FeatureInspector(
+        this._map,
+        options,
+        this._translate,
+        (feature, features) => this._emit('featureselect', { feature, features })
+      );
+    }
+    this._content.replaceChildren(this._inspector.getElement());
+    this._syncInspectorMode();
+  }
+
+  /**
+   * Destroys the feature inspector, if any, and ends its interaction mode.
+   */
+  private _destroyInspector(): void {
+    if (!this._inspector) return;
+    this._inspector.destroy();
+    this._inspector = undefined;
+    this._syncInspectorMode();
+  }
+
+  /**
+   * Runs the inspector's interaction mode while the inspector is shown in an
+   * open panel, and ends it otherwise.
+   */
+  private _syncInspectorMode(): void {
+    const active = this.getActiveMode() === INSPECT_MODE;
+    const wanted = Boolean(this._inspector) && !this._state.collapsed;
+
+    if (wanted && !active) {
+      this.activateMode(INSPECT_MODE, {
+        // Collapsing the panel ends the mode; Escape is left to the panel
+        cancelOnEscape: false,
+        onClick: (e) => this._inspector?.inspectAt(e.point),
+      });
+    } else if (!wanted && active) {
+      this.deactivateMode();
+    }
+  }
+
+  /**
+   * Writes a field value to state and emits a fieldchange event.
+   *
+   * @param key - The field key
+   * @param value - The new, validated value
+   */
+  private _handleFieldChange(key: string, value: unknown): void {
+    const data: PluginStateData = this._state.data ?? {};
+    const oldValue = data[key];
+    if (Object.is(oldValue, value)) return;
+
+    this.setState((state) => ({ ...state, data: { ...data, [key]: value } as TData }));
+    this._emit('fieldchange', { key, oldValue, newValue: value });
+  }
+
+  /**
+   * Builds the initial data values for the configured fields.
+   *
+   * @returns A map of field keys to default values
+   */
+  private _getFieldDefaults(): Record<string, unknown> {
+    const defaults: Record<string, unknown> = {};
+    for (const field of this._options.fields) {
+      defaults[field.key] = getFieldDefault(field);
+    }
+    return defaults;
+  }
+
+  /**
+   * Creates the main container element for the control.
+   * Contains a toggle button (29x29) matching navigation control size.
+   *
+   * @returns The container element
+   */
+  private _createContainer(): HTMLElement {
+    const container = document.createElement('div');
+    container.className = `maplibregl-ctrl maplibregl-ctrl-group plugin-control${
+      this._options.className ? ` ${this._options.className}` : ''
+    }`;
+
+    // Create toggle button (29x29 to match navigation control)
+    const toggleBtn = document.createElement('button');
+    toggleBtn.className = 'plugin-control-toggle';
+    toggleBtn.type = 'button';
+    toggleBtn.setAttribute('aria-haspopup', 'dialog');
+    toggleBtn.setAttribute('aria-controls', this._panelId);
+    toggleBtn.setAttribute('aria-expanded', String(!this._state.collapsed));
+
+    const icon = document.createElement('span');
+    icon.className = 'plugin-control-icon';
+    toggleBtn.appendChild(icon);
+
+    const badge = document.createElement('span');
+    badge.className = 'plugin-control-badge';
+    badge.setAttribute('aria-hidden', 'true');
+    badge.hidden = true;
+    toggleBtn.appendChild(badge);
+    toggleBtn.addEventListener('click', () => this._toggleByUser());
+    toggleBtn.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape' && !this._state.collapsed) {
+        e.stopPropagation();
+        this.collapse();
+      }
+    });
+
+    container.appendChild(toggleBtn);
+    this._toggleButton = toggleBtn;
+
+    // Tooltip is decorative; the button's aria-label carries the same text
+    const tooltip = document.createElement('span');
+    tooltip.className = 'plugin-control-tooltip';
+    tooltip.setAttribute('aria-hidden', 'true');
+    container.appendChild(tooltip);
+    this._tooltip = tooltip;
+
+    this._renderIcon();
+    this._renderTooltip();
+    this._renderBadge();
+
+    return container;
+  }
+
+  /**
+   * Creates the panel element with header and content areas.
+   * Panel is positioned as a dropdown below the toggle button.
+   *
+   * @returns The panel element
+   */
+  private _createPanel(): HTMLElement {
+    const panel = document.createElement('div');
+    panel.className = 'plugin-control-panel';
+    panel.id = this._panelId;
+    panel.tabIndex = -1;
+    panel.setAttribute('role', 'dialog');
+    panel.setAttribute('aria-labelledby', `${this._panelId}-title`);
+    panel.addEventListener('keydown', (e) => this._handlePanelKeydown(e));
+    panel.dataset.sheetSnap = this._sheetSnap;
+
+    // Drag handle, only shown in the bottom sheet presentation
+    const sheetHandle = document.createElement('div');
+    sheetHandle.className = 'plugin-control-sheet-handle';
+    sheetHandle.setAttribute('aria-hidden', 'true');
+    sheetHandle.addEventListener('pointerdown', (e) => this._startSheetDrag(e));
+
+    // Create header with title and close button
+    const header = document.createElement('div');
+    header.className = 'plugin-control-header';
+
+    const title = document.createElement('span');
+    title.className = 'plugin-control-title';
+    title.id = `${this._panelId}-title`;
+    title.textContent = this._options.title;
+
+    // Slot for app-supplied buttons next to the close button
+    const actions = document.createElement('div');
+    actions.className = 'plugin-control-header-actions';
+    this._headerActions = actions;
+
+    const closeBtn = document.createElement('button');
+    closeBtn.className = 'plugin-control-close';
+    closeBtn.type = 'button';
+    closeBtn.setAttribute('aria-label', this._translate('closePanel'));
+    closeBtn.innerHTML = '&times;';
+    closeBtn.addEventListener('click', () => this.collapse());
+    this._closeButton = closeBtn;
+
+    header.appendChild(title);
+    header.appendChild(actions);
+    header.appendChild(closeBtn);
+
+    if (this._options.draggable) {
+      header.classList.add('plugin-control-header-draggable');
+      header.addEventListener('pointerdown', (e) => this._startMove(e));
+    }
+    header.addEventListener('pointerdown', (e) => this._startSheetDrag(e));
+
+    // Create content area
+    const content = document.createElement('div');
+    content.className = 'plugin-control-content';
+    this._content = content;
+
+    panel.appendChild(sheetHandle);
+    panel.appendChild(header);
+    panel.appendChild(content);
+
+    if (this._options.resizable) {
+      const handle = document.createElement('div');
+      handle.className = 'plugin-control-resize-handle';
+      handle.setAttribute('aria-hidden', 'true');
+      handle.addEventListener('pointerdown', (e) => this._startResize(e));
+      panel.appendChild(handle);
+    }
+
+    this._panel = panel;
+    this._applyPanelSize();
+
+    return panel;
+  }
+
+  /**
+   * Renders the configured icon into the toggle button.
+   */
+  private _renderIcon(): void {
+    const target = this._toggleButton?.querySelector('.plugin-control-icon');
+    if (!target) return;
+
+    const icon = this._options.icon;
+    if (icon instanceof HTMLElement) {
+      target.replaceChildren(icon);
+    } else if (icon && icon.trim().startsWith('<')) {
+      target.innerHTML = icon;
+    } else if (icon) {
+      const img = document.createElement('img');
+      img.src = icon;
+      img.alt = '';
+      target.replaceChildren(img);
+    } else {
+      target.innerHTML = DEFAULT_ICON;
+    }
+  }
+
+  /**
+   * Updates the tooltip text from the tooltip option and title.
+   */
+  private _renderTooltip(): void {
+    const tooltip = this._tooltip;
+    if (!tooltip) return;
+
+    const option = this._options.tooltip;
+    const text = option === true ? this._options.title : option || '';
+    tooltip.textContent = text;
+    tooltip.hidden = !text;
+  }
+
+  /**
+   * Updates the badge element and the toggle button's accessible label.
+   */
+  private _renderBadge(): void {
+    const button = this._toggleButton;
+    const badge = button?.querySelector<HTMLElement>('.plugin-control-badge');
+    if (!button || !badge) return;
+
+    const value = this._badge;
+    const isDot = value === true;
+    let text = '';
+    if (typeof value === 'number') {
+      text = value > MAX_BADGE_COUNT ? `${MAX_BADGE_COUNT}+` : value > 0 ? String(value) : '';
+    } else if (typeof value === 'string') {
+      text = value;
+    }
+
+    badge.hidden = !isDot && !text;
+    badge.textContent = text;
+    badge.classList.toggle('plugin-control-badge-dot', isDot);
+
+    // Include counts in the accessible name, e.g. "Filters (3)"
+    button.setAttribute('aria-label', text ? `${this._options.title} (${text})` : this._options.title);
+  }
+
+  /**
+   * Creates a translator from the locale options.
+   *
+   * @returns The translator
+   */
+  private _createTranslator(): Translator {
+    return createTranslator(
+      this._options.locale,
+      this._options.fallbackLocale,
+      this._options.messages
+    );
+  }
+
+  /**
+   * Checks whether the map container uses a right-to-left layout.
+   *
+   * @returns True for right-to-left maps
+   */
+  private _isRtl(): boolean {
+    if (!this._mapContainer) return false;
+    const dir = this._mapContainer.closest('[dir]')?.getAttribute('dir');
+    if (dir === 'rtl' || dir === 'ltr') return dir === 'rtl';
+    return getComputedStyle(this._mapContainer).direction === 'rtl';
+  }
+
+  /**
+   * Mirrors the panel layout for right-to-left maps.
+   */
+  private _applyDirection(): void {
+    this._panel?.setAttribute('dir', this._isRtl() ? 'rtl' : 'ltr');
+  }
+
+  /**
+   * Applies the resolved theme to the container and panel and, for the
+   * 'auto' theme, follows changes of the color scheme preference.
+   */
+  private _applyTheme(): void {
+    this._unwatchColorScheme();
+    if (!this._container || !this._panel) return;
+
+    if (this._options.theme === 'auto' && typeof window.matchMedia === 'function') {
+      this._colorSchemeQuery = window.matchMedia('(prefers-color-scheme: dark)');
+      this._colorSchemeHandler = () => this._setThemeAttribute();
+      this._colorSchemeQuery.addEventListener('change', this._colorSchemeHandler);
+    }
+    this._setThemeAttribute();
+  }
+
+  /**
+   * Writes the resolved theme to the `data-theme` attributes.
+   */
+  private _setThemeAttribute(): void {
+    const theme = this.getTheme();
+    this._container?.setAttribute('data-theme', theme);
+    this._panel?.setAttribute('data-theme', theme);
+  }
+
+  /**
+   * Stops following the color scheme preference.
+   */
+  private _unwatchColorScheme(): void {
+    if (this._colorSchemeQuery && this._colorSchemeHandler) {
+      this._colorSchemeQuery.removeEventListener('change', this._colorSchemeHandler);
+    }
+    this._colorSchemeQuery = null;
+    this._colorSchemeHandler = null;
+  }
+
+  /**
+   * Checks whether the user prefers a dark color scheme.
+   *
+   * @returns True if a dark color scheme is preferred
+   */
+  private _prefersDark(): boolean {
+    return (
+      typeof window !== 'undefined' &&
+      typeof window.matchMedia === 'function' &&
+      window.matchMedia('(prefers-color-scheme: dark)').matches
+    );
+  }
+
+  /**
+   * Toggles the panel for the toggle button or the keyboard shortcut. Unlike
+   * programmatic expands, these move focus into the panel.
+   */
+  private _toggleByUser(): void {
+    this._toggledByUser = true;
+    try {
+      this.toggle();
+    } finally {
+      this._toggledByUser = false;
+    }
+  }
+
+  /**
+   * Handles Escape, the history shortcuts and, when enabled, keeps Tab focus inside the panel.
+   *
+   * @param e - The keydown event
+   */
+  private _handlePanelKeydown(e: KeyboardEvent): void {
+    if (this._handleHistoryShortcut(e)) return;
+
+    if (e.key === 'Escape') {
+      e.stopPropagation();
+      this.collapse();
+      return;
+    }
+
+    if (e.key !== 'Tab' || !this._options.trapFocus || !this._panel) return;
+
+    const focusable = Array.from(this._panel.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR));
+    if (focusable.length === 0) {
+      e.preventDefault();
+      return;
+    }
+
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    const active = document.activeElement;
+    if (e.shiftKey && (active === first || active === this._panel)) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && active === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  }
+
+  /**
+   * Inserts the panel into the DOM according to the panel mode.
+   * Floating panels are appended to the map container for independent positioning
+   * (avoids overlap with other controls). Docked panels are placed next to the map
+   * container inside a wrapper of the library, so the map shrinks next to them.
+   */
+  private _mountPanel(): void {
+    const panel = this._panel;
+    const mapContainer = this._mapContainer;
+    if (!panel || !mapContainer) return;
+
+    const mode = this._options.panelMode;
+    panel.classList.remove(
+      'plugin-control-panel-floating',
+      'plugin-control-panel-docked',
+      'plugin-control-panel-docked-left',
+      'plugin-control-panel-docked-right',
+      'plugin-control-panel-external'
+    );
+    this._resetPanelPosition();
+
+    if (mode === 'docked-left' || mode === 'docked-right') {
+      if (this._getDock(mapContainer)) {
+        panel.classList.add('plugin-control-panel-docked', `plugin-control-panel-${mode}`);
+        mapContainer.insertAdjacentElement(
+          mode === 'docked-left' ? 'beforebegin' : 'afterend',
+          panel
+        );
+        this._resizeMapIfDocked();
+        return;
+      }
+    }
+
+    if (mode === 'external') {
+      const option = this._options.panelContainer;
+      const target = typeof option === 'string' ? document.querySelector(option) : option;
+      if (target) {
+        panel.classList.add('plugin-control-panel-external');
+        target.appendChild(panel);
+        return;
+      }
+    }
+
+    // Floating, or a docked/external mode whose host is unavailable
+    panel.classList.add('plugin-control-panel-floating');
+    mapContainer.appendChild(panel);
+  }
+
+  /**
+   * Removes the panel from its host and undoes docking layout changes.
+   */
+  private _unmountPanel(): void {
+    const panel = this._panel;
+    if (!panel) return;
+
+    const wasDocked = panel.classList.contains('plugin-control-panel-docked');
+    panel.parentNode?.removeChild(panel);
+
+    if (wasDocked && this._mapContainer) {
+      // Keep the wrapper if another control is still docked there
+      const dock = this._mapContainer.parentElement;
+      if (
+        dock?.classList.contains('plugin-control-dock') &&
+        !dock.querySelector(':scope > .plugin-control-panel-docked')
+      ) {
+        dock.parentElement?.insertBefore(this._mapContainer, dock);
+        dock.remove();
+        this._mapContainer.classList.remove('plugin-control-docked-map');
+      }
+      this._map?.resize();
+    }
+  }
+
+  /**
+   * Gets the wrapper that lays out the map container and docked panels side by side.
+   * It is created in the map container's place on first use, so the element that
+   * holds the map keeps its own layout.
+   *
+   * @param mapContainer - The map container
+   * @returns The wrapper, or null if the map container is not in the DOM
+   */
+  private _getDock(mapContainer: HTMLElement): HTMLElement | null {
+    const parent = mapContainer.parentElement;
+    if (!parent) return null;
+    if (parent.classList.contains('plugin-control-dock')) return parent;
+
+    const dock = document.createElement('div');
+    dock.className = 'plugin-control-dock';
+    parent.insertBefore(dock, mapContainer);
+    dock.appendChild(mapContainer);
+    mapContainer.classList.add('plugin-control-docked-map');
+    return dock;
+  }
+
+  /**
+   * Resizes the map when the panel is docked, since the map's width depends on it.
+   */
+  private _resizeMapIfDocked(): void {
+    if (!this._panel?.classList.contains('plugin-control-panel-docked')) return;
+    this._map?.resize();
+  }
+
+  /**
+   * Clears inline positioning set for floating panels.
+   */
+  private _resetPanelPosition(): void {
+    if (!this._panel) return;
+    this._panel.style.top = '';
+    this._panel.style.bottom = '';
+    this._panel.style.left = '';
+    this._panel.style.right = '';
+    this._panel.style.maxHeight = '';
+  }
+
+  /**
+   * Checks whether the panel floats next to the toggle button, i.e. it is neither
+   * docked, rendered externally, nor presented as a bottom sheet.
+   *
+   * @returns True for a floating panel
+   */
+  private _isFloating(): boolean {
+    return this._options.panelMode === 'floating' && !this._sheet;
+  }
+
+  /**
+   * Switches between the floating panel and the bottom sheet depending on the map width.
+   */
+  private _updatePresentation(): void {
+    const panel = this._panel;
+    if (!panel || !this._mapContainer) return;
+
+    const breakpoint = this._options.mobileBreakpoint;
+    const sheet =
+      breakpoint != null &&
+      this._options.panelMode === 'floating' &&
+      this._mapContainer.clientWidth < breakpoint;
+    if (sheet === this._sheet) return;
+
+    this._gestureCleanup?.();
+    this._sheet = sheet;
+    panel.classList.toggle('plugin-control-panel-sheet', sheet);
+    this._resetPanelPosition();
+    this._applyPanelSize();
+    if (!sheet && !this._state.collapsed) {
+      this._updatePanelPosition();
+    }
+  }
+
+  /**
+   * Starts dragging the bottom sheet by its handle or header. On release the sheet
+   * snaps to the nearest snap point, or collapses when swiped below the lowest one.
+   *
+   * @param e - The pointerdown event
+   */
+  private _startSheetDrag(e: PointerEvent): void {
+    const panel = this._panel;
+    if (!panel || !this._mapContainer || !this._sheet) return;
+    if ((e.target as Element).closest('button')) return;
+
+    const startHeight = panel.getBoundingClientRect().height;
+    const mapHeight = this._mapContainer.getBoundingClientRect().height;
+    let height = startHeight;
+    let dragged = false;
+
+    this._trackPointer(
+      e,
+      (_dx, dy) => {
+        dragged = true;
+        height = clamp(startHeight - dy, 0, mapHeight);
+        panel.style.height = `${height}px`;
+      },
+      () => {
+        if (!dragged) return;
+
+        const snaps = this._options.sheetSnapPoints.map((snap) => ({
+          snap,
+          height: SHEET_SNAP_HEIGHTS[snap] * mapHeight,
+        }));
+        const lowest = Math.min(...snaps.map((s) => s.height));
+        if (snaps.length === 0 || height < lowest / 2) {
+          this._applyPanelSize();
+          this.collapse();
+          return;
+        }
+
+        const nearest = snaps.reduce((best, s) =>
+          Math.abs(s.height - height) < Math.abs(best.height - height) ? s : best
+        );
+        this.setSheetSnap(nearest.snap);
+      }
+    );
+  }
+
+  /**
+   * Applies the width and height from the state to the panel.
+   */
+  private _applyPanelSize(): void {
+    if (!this._panel) return;
+
+    // The bottom sheet spans the map width and takes its height from the snap point
+    if (this._sheet) {
+      this._panel.classList.remove('plugin-control-panel-sized');
+      this._panel.style.width = '';
+      this._panel.style.minWidth = '';
+      this._panel.style.maxWidth = '';
+      this._panel.style.height = `${SHEET_SNAP_HEIGHTS[this._sheetSnap] * 100}%`;
+      this._panel.style.maxHeight = 'none';
+      return;
+    }
+
+    this._panel.style.width = `${this._state.panelWidth}px`;
+    if (this._options.resizable) {
+      this._panel.style.minWidth = `${this._options.minPanelWidth}px`;
+      this._panel.style.maxWidth = `${this._options.maxPanelWidth}px`;
+    }
+
+    // Docked and external panels take their height from the layout
+    const height = this._isFloating() ? this._state.panelHeight : null;
+    this._panel.classList.toggle('plugin-control-panel-sized', height != null);
+    this._panel.style.height = height != null ? `${height}px` : '';
+    this._panel.style.maxHeight = height != null ? 'none' : '';
+  }
+
+  /**
+   * Tracks a pointer gesture on the document until the pointer is released.
+   *
+   * @param e - The pointerdown event starting the gesture
+   * @param onMove - Called with the pointer delta since the gesture started
+   * @param onEnd - Called once when the pointer is released
+   */
+  private _trackPointer(
+    e: PointerEvent,
+    onMove: (dx: number, dy: number) => void,
+    onEnd: () => void
+  ): void {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    this._gestureCleanup?.();
+
+    const startX = e.clientX;
+    const startY = e.clientY;
+    this._panel?.classList.add('plugin-control-panel-active');
+
+    const move = (ev: PointerEvent) => onMove(ev.clientX - startX, ev.clientY - startY);
+    const cleanup = () => {
+      document.removeEventListener('pointermove', move);
+      document.removeEventListener('pointerup', up);
+      this._panel?.classList.remove('plugin-control-panel-active');
+      this._gestureCleanup = null;
+    };
+    const up = () => {
+      cleanup();
+      // The click that follows the release may land outside the panel
+      this._ignoreNextClick = true;
+      setTimeout(() => {
+        this._ignoreNextClick = false;
+      }, 0);
+      onEnd();
+    };
+
+    document.addEventListener('pointermove', move);
+    document.addEventListener('pointerup', up);
+    this._gestureCleanup = cleanup;
+  }
+
+  /**
+   * Starts resizing the panel from the resize handle.
+   * The handle sits on the corner opposite the panel's anchor, so the delta
+   * direction depends on which edges the panel is anchored to.
+   *
+   * @param e - The pointerdown event
+   */
+  private _startResize(e: PointerEvent): void {
+    const panel = this._panel;
+    if (!panel || !this._isFloating()) return;
+
+    const rect = panel.getBoundingClientRect();
+    const dirX = panel.dataset.anchorX === 'right' ? -1 : 1;
+    const dirY = panel.dataset.anchorY === 'bottom' ? -1 : 1;
+    let width = rect.width;
+    let height = rect.height;
+    let resized = false;
+
+    this._trackPointer(
+      e,
+      (dx, dy) => {
+        resized = true;
+        width = clamp(rect.width + dirX * dx, this._options.minPanelWidth, this._options.maxPanelWidth);
+        height = clamp(
+          rect.height + dirY * dy,
+          this._options.minPanelHeight,
+          this._options.maxPanelHeight
+        );
+        panel.style.width = `${width}px`;
+        panel.style.height = `${height}px`;
+        panel.style.maxHeight = 'none';
+        panel.classList.add('plugin-control-panel-sized');
+      },
+      () => {
+        if (!resized) return;
+        this.setState({ panelWidth: Math.round(width), panelHeight: Math.round(height) });
+        this._emit('resize');
+      }
+    );
+  }
+
+  /**
+   * Starts moving the panel by its header. The panel is kept inside the map container.
+   *
+   * @param e - The pointerdown event
+   */
+  private _startMove(e: PointerEvent): void {
+    const panel = this._panel;
+    if (!panel || !this._mapContainer) return;
+    if (!this._isFloating()) return;
+    if ((e.target as Element).closest('button')) return;
+
+    const panelRect = panel.getBoundingClientRect();
+    const mapRect = this._mapContainer.getBoundingClientRect();
+    const startX = panelRect.left - mapRect.left;
+    const startY = panelRect.top - mapRect.top;
+    const maxX = Math.max(0, mapRect.width - panelRect.width);
+    const maxY = Math.max(0, mapRect.height - panelRect.height);
+    let x = startX;
+    let y = startY;
+    let moved = false;
+
+    this._trackPointer(
+      e,
+      (dx, dy) => {
+        moved = true;
+        x = clamp(startX + dx, 0, maxX);
+        y = clamp(startY + dy, 0, maxY);
+        this._setPanelOffsetStyle(x, y);
+      },
+      () => {
+        if (!moved) return;
+        this.setState({ panelOffset: { x: Math.round(x), y: Math.round(y) } });
+        this._emit('move');
+      }
+    );
+  }
+
+  /**
+   * Positions the panel at an offset from the map container's top-left corner.
+   *
+   * @param x - Horizontal offset in pixels
+   * @param y - Vertical offset in pixels
+   */
+  private _setPanelOffsetStyle(x: number, y: number): void {
+    if (!this._panel) return;
+    this._panel.style.left = `${x}px`;
+    this._panel.style.top = `${y}px`;
+    this._panel.style.right = '';
+    this._panel.style.bottom = '';
+    this._panel.dataset.anchorX = 'left';
+    this._panel.dataset.anchorY = 'top';
+  }
+
+  /**
+   * Setup event listeners for panel positioning and click-outside behavior.
+   */
+  private _setupEventListeners(): void {
+    // Click outside to close (grouped controls share the group's listener)
+    if (!this._options.group) {
+      this._addClickOutsideListener();
+    }
+
+    // Update panel position on window resize
+    this._resizeHandler = () => {
+      this._updatePresentation();
+      if (!this._state.collapsed) {
+        this._updatePanelPosition();
+      }
+    };
+    window.addEventListener('resize', this._resizeHandler);
+
+    // Update panel position on map resize (e.g., sidebar toggle)
+    this._mapResizeHandler = () => {
+      this._updatePresentation();
+      if (!this._state.collapsed) {
+        this._updatePanelPosition();
+      }
+    };
+    this._map?.on('resize', this._mapResizeHandler);
+
+    // Toggle the panel with the keyboard shortcut while focus is on the map
+    const shortcut = this._options.keyboardShortcut;
+    if (shortcut) {
+      this._shortcutHandler = (e: KeyboardEvent) => {
+        const target = e.target as HTMLElement;
+        const editing =
+          target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+        // Plain-key shortcuts would fire while typing into form fields
+        if (editing && !e.ctrlKey && !e.altKey && !e.metaKey) return;
+        if (!matchesShortcut(e, shortcut)) return;
+
+        e.preventDefault();
+        this._toggleByUser();
+      };
+      this._mapContainer?.addEventListener('keydown', this._shortcutHandler);
+    }
+
+    // Update panel position when the content grows or shrinks
+    if (typeof ResizeObserver !== 'undefined') {
+      this._contentResizeObserver = new ResizeObserver(() => {
+        if (!this._state.collapsed) {
+          this._updatePanelPosition();
+        }
+      });
+      this._observeContentSize();
+    }
+  }
+
+  /**
+   * Adds the document listener that collapses the panel on outside clicks.
+   */
+  private _addClickOutsideListener(): void {
+    if (this._clickOutsideHandler) return;
+    this._clickOutsideHandler = (e: MouseEvent) => this.handleDocumentClick(e);
+    document.addEventListener('click', this._clickOutsideHandler);
+  }
+
+  /**
+   * Removes the click-outside document listener.
+   */
+  private _removeClickOutsideListener(): void {
+    if (this._clickOutsideHandler) {
+      document.removeEventListener('click', this._clickOutsideHandler);
+      this._clickOutsideHandler = null;
+    }
+  }
+
+  /**
+   * Observes the content area and its children for size changes.
+   * The children are observed too because a height-capped content area keeps
+   * its own size while its content grows.
+   */
+  private _observeContentSize(): void {
+    const observer = this._contentResizeObserver;
+    if (!observer || !this._content) return;
+
+    observer.disconnect();
+    observer.observe(this._content);
+    for (const child of Array.from(this._content.children)) {
+      observer.observe(child);
+    }
+  }
+
+  /**
+   * Detect which corner the control is positioned in.
+   *
+   * @returns The position: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right'
+   */
+  private _getControlPosition(): PluginControlPosition {
+    const parent = this._container?.parentElement;
+    if (!parent) return this._options.position;
+
+    if (parent.classList.contains('maplibregl-ctrl-top-left')) return 'top-left';
+    if (parent.classList.contains('maplibregl-ctrl-top-right')) return 'top-right';
+    if (parent.classList.contains('maplibregl-ctrl-bottom-left')) return 'bottom-left';
+    if (parent.classList.contains('maplibregl-ctrl-bottom-right')) return 'bottom-right';
+
+    return this._options.position;
+  }
+
+  /**
+   * Update the panel position based on button location and control corner.
+   * Positions the panel next to the button, expanding in the appropriate direction.
+   */
+  private _updatePanelPosition(): void {
+    if (!this._container || !this._panel || !this._mapContainer) return;
+    if (!this._isFloating()) return;
+
+    // A panel moved by the user keeps its offset, constrained to the map container
+    const offset = this._state.panelOffset;
+    if (offset) {
+      const mapRect = this._mapContainer.getBoundingClientRect();
+      const panelRect = this._panel.getBoundingClientRect();
+      this._setPanelOffsetStyle(
+        clamp(offset.x, 0, Math.max(0, mapRect.width - panelRect.width)),
+        clamp(offset.y, 0, Math.max(0, mapRect.height - panelRect.height))
+      );
+      return;
+    }
+
+    // Get the toggle button (first child of container)
+    const button = this._container.querySelector('.plugin-control-toggle');
     if (!button) return;
 
     const buttonRect = button.getBoundingClientRect();
@@ -396,30 +2527,58 @@ export class PluginControl implements IControl {
     this._panel.style.left = '';
     this._panel.style.right = '';
 
-    switch (position) {
-      case 'top-left':
-        // Panel expands down and to the right
-        this._panel.style.top = `${buttonTop + buttonRect.height + panelGap}px`;
-        this._panel.style.left = `${buttonLeft}px`;
-        break;
-
-      case 'top-right':
-        // Panel expands down and to the left
-        this._panel.style.top = `${buttonTop + buttonRect.height + panelGap}px`;
-        this._panel.style.right = `${buttonRight}px`;
-        break;
-
-      case 'bottom-left':
-        // Panel expands up and to the right
-        this._panel.style.bottom = `${buttonBottom + buttonRect.height + panelGap}px`;
-        this._panel.style.left = `${buttonLeft}px`;
-        break;
-
-      case 'bottom-right':
-        // Panel expands up and to the left
-        this._panel.style.bottom = `${buttonBottom + buttonRect.height + panelGap}px`;
-        this._panel.style.right = `${buttonRight}px`;
-        break;
+    // Measure the panel at its natural height before constraining it
+    this._panel.style.maxHeight = this._state.panelHeight != null ? 'none' : '';
+    const panelRect = this._panel.getBoundingClientRect();
+    const mapWidth = mapRect.width;
+    const mapHeight = mapRect.height;
+
+    // Vertical: expand away from the control's corner, flipping when the other side has more room
+    const spaceBelow = mapHeight - (buttonTop + buttonRect.height + panelGap);
+    const spaceAbove = buttonTop - panelGap;
+    const preferBelow = position.startsWith('top');
+    const preferredSpace = preferBelow ? spaceBelow : spaceAbove;
+    const otherSpace = preferBelow ? spaceAbove : spaceBelow;
+    const flip = panelRect.height > preferredSpace && otherSpace > preferredSpace;
+    const below = preferBelow !== flip;
+
+    if (below) {
+      this._panel.style.top = `${buttonTop + buttonRect.height + panelGap}px`;
+    } else {
+      this._panel.style.bottom = `${buttonBottom + buttonRect.height + panelGap}px`;
+    }
+
+    // Cap the height to the available space; the content area scrolls internally
+    const availableHeight = Math.max(0, below ? spaceBelow : spaceAbove);
+    if (panelRect.height > availableHeight) {
+      this._panel.style.maxHeight = `${availableHeight}px`;
+    }
+
+    // Horizontal: align with the button edge on the corner side, switching alignment when
+    // only the other one fits, then shift to stay inside the map
+    const leftAligned = buttonLeft;
+    const rightAligned = mapWidth - buttonRight - panelRect.width;
+    const fits = (x: number) => x >= 0 && x + panelRect.width <= mapWidth;
+    let alignRight = position.endsWith('right');
+    if (
+      !fits(alignRight ? rightAligned : leftAligned) &&
+      fits(alignRight ? leftAligned : rightAligned)
+    ) {
+      alignRight = !alignRight;
+    }
+    const left = clamp(
+      alignRight ? rightAligned : leftAligned,
+      0,
+      Math.max(0, mapWidth - panelRect.width)
+    );
+
+    if (alignRight) {
+      this._panel.style.right = `${mapWidth - left - panelRect.width}px`;
+    } else {
+      this._panel.style.left = `${left}px`;
     }
+
+    this._panel.dataset.anchorX = alignRight ? 'right' : 'left';
+    this._panel.dataset.anchorY = below ? 'top' : 'bottom';
   }
 }
@@ -0,0 +1,314 @@
+import type { Map as MapLibreMap } from 'maplibre-gl';
+import { PluginControl } from './PluginControl';
+import type { PluginControlEvent, PluginControlOptions } from './types';
+
+/**
+ * How an attribute value is converted to an option value
+ */
+type AttributeType = 'string' | 'number' | 'boolean';
+
+/**
+ * Attributes mapped to PluginControlOptions
+ */
+const ATTRIBUTE_OPTIONS: Record<string, [keyof PluginControlOptions, AttributeType]> = {
+  title: ['title', 'string'],
+  position: ['position', 'string'],
+  collapsed: ['collapsed', 'boolean'],
+  'panel-width': ['panelWidth', 'number'],
+  'panel-height': ['panelHeight', 'number'],
+  resizable: ['resizable', 'boolean'],
+  draggable: ['draggable', 'boolean'],
+  'auto-focus': ['autoFocus', 'boolean'],
+  'trap-focus': ['trapFocus', 'boolean'],
+  'keyboard-shortcut': ['keyboardShortcut', 'string'],
+  theme: ['theme', 'string'],
+  locale: ['locale', 'string'],
+  'fallback-locale': ['fallbackLocale', 'string'],
+  icon: ['icon', 'string'],
+  tooltip: ['tooltip', 'string'],
+  'panel-mode': ['panelMode', 'string'],
+  'panel-container': ['panelContainer', 'string'],
+  'mobile-breakpoint': ['mobileBreakpoint', 'number'],
+  'sheet-snap': ['sheetSnap', 'string'],
+  history: ['history', 'boolean'],
+  scheduler: ['scheduler', 'string'],
+  'control-class': ['className', 'string'],
+};
+
+/**
+ * Control events re-dispatched as DOM events on the element
+ */
+const FORWARDED_EVENTS: PluginControlEvent[] = ['expand', 'collapse', 'statechange'];
+
+/**
+ * Default tag name of the custom element
+ */
+export const PLUGIN_CONTROL_TAG = 'maplibre-plugin-control';
+
+/**
+ * Converts an attribute value to an option value.
+ *
+ * @param name - The attribute name
+ * @param value - The attribute value, or null if the attribute is absent
+ * @returns The option value, or undefined to keep the current option
+ */
+function parseAttribute(name: string, value: string | null): unknown {
+  const [option, type] = ATTRIBUTE_OPTIONS[name];
+
+  // Without the attribute the panel starts collapsed, like the control default;
+  // `collapsed="false"` expands it
+  if (option === 'collapsed') return value !== 'false';
+  if (value === null) return undefined;
+
+  switch (type) {
+    case 'boolean':
+      return value !== 'false';
+    case 'number': {
+      const number = Number(value);
+      return value.trim() === '' || Number.isNaN(number) ? undefined : number;
+    }
+    default:
+      if (option === 'tooltip' && (value === 'true' || value === 'false')) {
+        return value === 'true';
+      }
+      return value;
+  }
+}
+
+/**
+ * Base class of the custom element. Falls back to an empty class where
+ * `HTMLElement` does not exist, so the module can be imported during SSR.
+ */
+const BaseElement = (
+  typeof HTMLElement === 'undefined' ? class {} : HTMLElement
+) as typeof HTMLElement;
+
+/**
+ * Custom element wrapping PluginControl for Vue, Svelte and plain HTML.
+ *
+ * The map is taken from the `map` property or from the `map` property of the
+ * element referenced by the `for` attribute (an id or a selector). Attributes
+ * map to PluginControlOptions, child nodes are moved into the panel, and the
+ * control's `expand`, `collapse` and `statechange` events are re-dispatched as
+ * DOM CustomEvents with the event data as `detail`. The panel starts
+ * collapsed unless `collapsed="false"` is set, and the attribute reflects the
+ * collapsed state. Moving the element in the DOM keeps the control and its state.
+ *
+ * @example
+ * ```html
+ * <div id="map"></div>
+ * <maplibre-plugin-control for="#map" title="Layers" position="top-left" collapsed>
+ *   <p>Panel content</p>
+ * </maplibre-plugin-control>
+ * <script type="module">
+ *   document.getElementById('map').map = new maplibregl.Map({ container: 'map' });
+ *   document.querySelector('maplibre-plugin-control').connect();
+ * </script>
+ * ```
+ */
+export class PluginControlElement extends BaseElement {
+  static get observedAttributes(): string[] {
+    return ['for', ...Object.keys(ATTRIBUTE_OPTIONS)];
+  }
+
+  private _map: MapLibreMap | null = null;
+  private _control: PluginControl | null = null;
+  private _extraOptions: Partial<PluginControlOptions> = {};
+  private _contentHost = document.createElement('div');
+  private _childObserver: MutationObserver | null = null;
+  private _reflecting = false;
+
+  /**
+   * The map the control is added to. Takes precedence over the `for` attribute.
+   */
+  get map(): MapLibreMap | null {
+    return this._map;
+  }
+
+  set map(map: MapLibreMap | null) {
+    this._map = map;
+    this.connect();
+  }
+
+  /**
+   * Options that cannot be expressed as attributes, e.g. `fields` or `layerManager`.
+   * Merged over the attribute options.
+   */
+  get options(): Partial<PluginControlOptions> {
+    return this._extraOptions;
+  }
+
+  set options(options: Partial<PluginControlOptions>) {
+    this._extraOptions = options;
+    this._control?.setOptions(options);
+  }
+
+  /**
+   * The underlying control, or null while it is not added to a map.
+   */
+  get control(): PluginControl | null {
+    return this._control;
+  }
+
+  /**
+   * Called when the element is inserted into the document.
+   */
+  connectedCallback(): void {
+    this._contentHost.className = 'plugin-control-element-content';
+    this._adoptChildren();
+    this._childObserver = new MutationObserver(() => this._adoptChildren());
+    this._childObserver.observe(this, { childList: true });
+    // Still set when the element was only moved
+    if (!this._control) this.connect();
+  }
+
+  /**
+   * Called when the element is removed from the document. The control is
+   * removed a microtask later unless the element was re-inserted, i.e. moved.
+   */
+  disconnectedCallback(): void {
+    this._childObserver?.disconnect();
+    this._childObserver = null;
+    queueMicrotask(() => {
+      if (!this.isConnected) this._removeControl();
+    });
+  }
+
+  /**
+   * Called when an observed attribute changes.
+   *
+   * @param name - The attribute name
+   * @param oldValue - The previous value
+   * @param value - The new value
+   */
+  attributeChangedCallback(name: string, oldValue: string | null, value: string | null): void {
+    if (oldValue === value || this._reflecting) return;
+
+    if (name === 'for') {
+      this.connect();
+      return;
+    }
+
+    const [option] = ATTRIBUTE_OPTIONS[name];
+    this._control?.setOptions({ [option]: parseAttribute(name, value) });
+  }
+
+  /**
+   * (Re)creates the control and adds it to the current map. Call this after the
+   * map referenced by `for` has been created.
+   */
+  connect(): void {
+    this._removeControl();
+    if (!this.isConnected) return;
+
+    const map = this._resolveMap();
+    if (!map) return;
+
+    const control = new PluginControl({
+      ...this._readAttributeOptions(),
+      ...this._extraOptions,
+      content: this._contentHost.hasChildNodes()
+        ? this._contentHost
+        : (this._extraOptions.content ?? null),
+    });
+
+    for (const event of FORWARDED_EVENTS) {
+      control.on(event, (data) => {
+        if (event !== 'statechange') {
+          this._reflectCollapsed(data.state.collapsed);
+        }
+        this.dispatchEvent(new CustomEvent(event, { detail: data, bubbles: true, composed: true }));
+      });
+    }
+
+    this._control = control;
+    map.addControl(control, control.getPosition());
+  }
+
+  /**
+   * Removes the control from its map.
+   */
+  private _removeControl(): void {
+    const control = this._control;
+    this._control = null;
+    const map = control?.getMap();
+    if (control && map?.hasControl(control)) {
+      map.removeControl(control);
+    }
+  }
+
+  /**
+   * Finds the map from the `map` property or the element referenced by `for`.
+   *
+   * @returns The map, or null if none is available yet
+   */
+  private _resolveMap(): MapLibreMap | null {
+    if (this._map) return this._map;
+
+    const target = this.getAttribute('for');
+    if (!target) return null;
+
+    let element: Element | null = document.getElementById(target);
+    if (!element) {
+      try {
+        element = document.querySelector(target);
+      } catch {
+        // Not a valid selector
+        element = null;
+      }
+    }
+    return (element as (Element & { map?: MapLibreMap | null }) | null)?.map ?? null;
+  }
+
+  /**
+   * Reads the options set through attributes.
+   *
+   * @returns The options
+   */
+  private _readAttributeOptions(): Partial<PluginControlOptions> {
+    const options: Record<string, unknown> = {};
+    for (const name of Object.keys(ATTRIBUTE_OPTIONS)) {
+      const value = parseAttribute(name, this.getAttribute(name));
+      if (value !== undefined) {
+        options[ATTRIBUTE_OPTIONS[name][0]] = value;
+      }
+    }
+    return options as Partial<PluginControlOptions>;
+  }
+
+  /**
+   * Moves the element's child nodes into the panel content.
+   */
+  private _adoptChildren(): void {
+    if (!this.hasChildNodes()) return;
+
+    const hadContent = this._contentHost.hasChildNodes();
+    this._contentHost.append(...Array.from(this.childNodes));
+    if (!hadContent) {
+      this._control?.setContent(this._contentHost);
+    }
+  }
+
+  /**
+   * Mirrors the collapsed state to the `collapsed` attribute, as `collapsed`
+   * or `collapsed="false"`.
+   *
+   * @param collapsed - Whether the panel is collapsed
+   */
+  private _reflectCollapsed(collapsed: boolean): void {
+    this._reflecting = true;
+    this.setAttribute('collapsed', collapsed ? '' : 'false');
+    this._reflecting = false;
+  }
+}
+
+/**
+ * Registers the custom element. Does nothing if the tag name is already defined.
+ *
+ * @param tagName - The tag name to register
+ */
+export function definePluginControlElement(tagName = PLUGIN_CONTROL_TAG): void {
+  if (typeof customElements === 'undefined' || customElements.get(tagName)) return;
+  // A constructor can only be registered once, so each tag name gets its own subclass
+  customElements.define(tagName, class extends PluginControlElement {});
+}
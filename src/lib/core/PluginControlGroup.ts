@@ -0,0 +1,196 @@
+import type { PluginControl } from './PluginControl';
+import { callHandlers } from '../utils';
+import type {
+  PluginControlGroupOptions,
+  PluginControlGroupEvent,
+  PluginControlGroupEventHandler,
+} from './types';
+
+/**
+ * Default options for the PluginControlGroup
+ */
+const DEFAULT_OPTIONS: Required<PluginControlGroupOptions> = {
+  accordion: true,
+  zIndexBase: 1000,
+};
+
+/**
+ * Coordinates several PluginControl instances: keeps at most one panel open
+ * (accordion mode), stacks panels so the most recently opened one is on top,
+ * and shares a single click-outside listener between all members.
+ *
+ * @example
+ * ```typescript
+ * const group = new PluginControlGroup();
+ * const layers = new PluginControl({ title: 'Layers', group });
+ * const filters = new PluginControl({ title: 'Filters', group });
+ *
+ * group.on('expand', ({ control }) => console.log('opened', control));
+ * ```
+ */
+export class PluginControlGroup {
+  private _options: Required<PluginControlGroupOptions>;
+  private _controls: PluginControl[] = [];
+  private _eventHandlers = new globalThis.Map<
+    PluginControlGroupEvent,
+    Set<PluginControlGroupEventHandler>
+  >();
+  private _clickOutsideHandler: ((e: MouseEvent) => void) | null = null;
+
+  /**
+   * Creates a new PluginControlGroup instance.
+   *
+   * @param options - Configuration options for the group
+   */
+  constructor(options?: Partial<PluginControlGroupOptions>) {
+    this._options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Adds a control to the group.
+   *
+   * @param control - The control to add
+   */
+  add(control: PluginControl): void {
+    if (this._controls.includes(control)) return;
+
+    this._controls.push(control);
+    control.setGroup(this);
+
+    if (!this._clickOutsideHandler) {
+      this._clickOutsideHandler = (e: MouseEvent) => {
+        for (const member of [...this._controls]) {
+          member.handleDocumentClick(e);
+        }
+      };
+      document.addEventListener('click', this._clickOutsideHandler);
+    }
+
+    if (!control.getState().collapsed) {
+      this.notifyExpand(control);
+    } else {
+      this._updateZIndex();
+    }
+  }
+
+  /**
+   * Removes a control from the group.
+   *
+   * @param control - The control to remove
+   */
+  remove(control: PluginControl): void {
+    const index = this._controls.indexOf(control);
+    if (index === -1) return;
+
+    this._controls.splice(index, 1);
+    control.setGroup(null);
+    const panel = control.getPanel();
+    if (panel) panel.style.zIndex = '';
+
+    if (this._controls.length === 0 && this._clickOutsideHandler) {
+      document.removeEventListener('click', this._clickOutsideHandler);
+      this._clickOutsideHandler = null;
+    }
+    this._updateZIndex();
+  }
+
+  /**
+   * Gets the controls in the group, ordered from the bottom-most to the top-most panel.
+   *
+   * @returns The member controls
+   */
+  getControls(): PluginControl[] {
+    return [...this._controls];
+  }
+
+  /**
+   * Collapses every control in the group.
+   */
+  collapseAll(): void {
+    for (const control of [...this._controls]) {
+      control.collapse();
+    }
+  }
+
+  /**
+   * Registers an event handler.
+   *
+   * @param event - The event type to listen for
+   * @param handler - The callback function
+   */
+  on(event: PluginControlGroupEvent, handler: PluginControlGroupEventHandler): void {
+    if (!this._eventHandlers.has(event)) {
+      this._eventHandlers.set(event, new Set());
+    }
+    this._eventHandlers.get(event)!.add(handler);
+  }
+
+  /**
+   * Removes an event handler.
+   *
+   * @param event - The event type
+   * @param handler - The callback function to remove
+   */
+  off(event: PluginControlGroupEvent, handler: PluginControlGroupEventHandler): void {
+    this._eventHandlers.get(event)?.delete(handler);
+  }
+
+  /**
+   * Called by a member control after its panel expanded.
+   * Brings the panel to the front and, in accordion mode, collapses the other members.
+   *
+   * @param control - The control that expanded
+   */
+  notifyExpand(control: PluginControl): void {
+    const index = this._controls.indexOf(control);
+    if (index === -1) return;
+
+    this._controls.splice(index, 1);
+    this._controls.push(control);
+    this._updateZIndex();
+
+    if (this._options.accordion) {
+      for (const other of [...this._controls]) {
+        if (other !== control) other.collapse();
+      }
+    }
+
+    this._emit('expand', control);
+  }
+
+  /**
+   * Called by a member control after its panel collapsed.
+   *
+   * @param control - The control that collapsed
+   */
+  notifyCollapse(control: PluginControl): void {
+    if (!this._controls.includes(control)) return;
+    this._emit('collapse', control);
+  }
+
+  /**
+   * Assigns increasing z-indexes so later members stack above earlier ones.
+   */
+  private _updateZIndex(): void {
+    this._controls.forEach((control, i) => {
+      const panel = control.getPanel();
+      if (panel) panel.style.zIndex = String(this._options.zIndexBase + i);
+    });
+  }
+
+  /**
+   * Emits an event to all registered handlers. A throwing handler does not
+   * stop the others; its error is logged to the console.
+   *
+   * @param event - The event type to emit
+   * @param control - The control the event relates to
+   */
+  private _emit(event: PluginControlGroupEvent, control: PluginControl): void {
+    const handlers = this._eventHandlers.get(event);
+    if (!handlers) return;
+
+    callHandlers(handlers, { type: event, control, group: this }, (error) => {
+      console.error(`PluginControlGroup: "${event}" handler threw`, error);
+    });
+  }
+}
@@ -1,12 +1,22 @@
-import { useEffect, useRef } from 'react';
+import { useContext, useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
 import { PluginControl } from './PluginControl';
-import type { PluginControlReactProps } from './types';
+import { isDeepEqual } from '../utils';
+import { MapContext } from '../context/MapContext';
+import { PluginControlProvider } from '../context/PluginControlContext';
+import type { PluginControlOptions, PluginStateData } from './types';
+import type { PluginControlReactProps } from './reactTypes';
 
 /**
  * React wrapper component for PluginControl.
  *
  * This component manages the lifecycle of a PluginControl instance,
- * adding it to the map on mount and removing it on unmount.
+ * adding it to the map on mount and removing it on unmount. Prop changes are
+ * applied to the live control; object and array props such as `fields` are
+ * compared by value, so passing them inline does not re-apply them on every
+ * render. Children and header actions are rendered
+ * into the panel through portals, where `usePluginControl()` returns the control.
+ * The map is taken from the `map` prop or the nearest MapProvider.
  *
  * @example
  * ```tsx
@@ -23,7 +33,9 @@ import type { PluginControlReactProps } from './types';
  *           map={map}
  *           title="My Control"
  *           collapsed={false}
- *         />
+ *         >
+ *           <LayerList />
+ *         </PluginControlReact>
  *       )}
  *     </>
  *   );
@@ -31,31 +43,68 @@ import type { PluginControlReactProps } from './types';
  * ```
  *
  * @param props - Component props including map instance and control options
- * @returns null - This component renders nothing directly
+ * @returns Portals rendering the children and header actions into the panel
  */
-export function PluginControlReact({
-  map,
+export function PluginControlReact<TData extends PluginStateData = PluginStateData>({
+  map: mapProp,
   onStateChange,
+  children,
+  headerActions,
   ...options
-}: PluginControlReactProps): null {
-  const controlRef = useRef<PluginControl | null>(null);
+}: PluginControlReactProps<TData>) {
+  const contextMap = useContext(MapContext);
+  const map = mapProp ?? contextMap;
+  const controlRef = useRef<PluginControl<TData> | null>(null);
+  const appliedOptionsRef = useRef<Partial<PluginControlOptions<TData>>>({});
+  const [mountedControl, setMountedControl] = useState<PluginControl<TData> | null>(null);
+
+  // Always call the latest callback instead of the one from the first render
+  const onStateChangeRef = useRef(onStateChange);
+  onStateChangeRef.current = onStateChange;
+
+  // Portal targets outlive the control, so re-creating it (e.g. under StrictMode)
+  // moves the rendered React tree instead of remounting it. There is no document
+  // during server-side rendering, where nothing is rendered.
+  const [hosts] = useState(() =>
+    typeof document === 'undefined'
+      ? null
+      : { content: document.createElement('div'), actions: document.createElement('div') }
+  );
+
+  // Renderable children replace the placeholder content; removing them restores it
+  const hasChildren = children != null && typeof children !== 'boolean';
+  const controlOptions: Partial<PluginControlOptions<TData>> = {
+    ...options,
+    content: hasChildren && hosts ? hosts.content : (options.content ?? null),
+  };
+
+  // Read by the map effect, which only re-runs when the map changes
+  const controlOptionsRef = useRef(controlOptions);
+  controlOptionsRef.current = controlOptions;
 
   useEffect(() => {
     if (!map) return;
 
-    // Create the control instance
-    const control = new PluginControl(options);
+    // Create the control instance with the options of the latest render
+    const controlOptions = controlOptionsRef.current;
+    const control = new PluginControl<TData>(controlOptions);
     controlRef.current = control;
+    appliedOptionsRef.current = controlOptions;
 
-    // Register state change handler if provided
-    if (onStateChange) {
-      control.on('statechange', (event) => {
-        onStateChange(event.state);
-      });
-    }
+    // Unmount the portals when the control is removed, including by map.remove()
+    control.on('remove', () => {
+      setMountedControl(null);
+    });
+
+    // Forward state changes to the current onStateChange prop
+    control.on('statechange', (event) => {
+      onStateChangeRef.current?.(event.state);
+    });
 
     // Add control to map
-    map.addControl(control, options.position || 'top-right');
+    map.addControl(control, controlOptions.position || 'top-right');
+    if (hosts) control.getHeaderActionsElement()?.appendChild(hosts.actions);
+    setMountedControl(control);
 
     // Cleanup on unmount
     return () => {
@@ -63,23 +112,37 @@ export function PluginControlReact({
         map.removeControl(control);
       }
       controlRef.current = null;
+      setMountedControl(null);
     };
   }, [map]);
 
-  // Update options when they change
+  // Apply the props whose value changed since they were last applied
   useEffect(() => {
-    if (controlRef.current) {
-      // Handle collapsed state changes
-      const currentState = controlRef.current.getState();
-      if (options.collapsed !== undefined && options.collapsed !== currentState.collapsed) {
-        if (options.collapsed) {
-          controlRef.current.collapse();
-        } else {
-          controlRef.current.expand();
-        }
+    const control = controlRef.current;
+    if (!control) return;
+
+    const applied = appliedOptionsRef.current;
+    const changed: Partial<PluginControlOptions<TData>> = {};
+    let hasChanges = false;
+    for (const key of Object.keys(controlOptions) as (keyof PluginControlOptions<TData>)[]) {
+      if (!isDeepEqual(controlOptions[key], applied[key])) {
+        (changed as Record<string, unknown>)[key] = controlOptions[key];
+        hasChanges = true;
       }
     }
-  }, [options.collapsed]);
 
-  return null;
+    appliedOptionsRef.current = controlOptions;
+    if (hasChanges) {
+      control.setOptions(changed);
+    }
+  });
+
+  if (!mountedControl || !hosts) return null;
+
+  return (
+    <PluginControlProvider control={mountedControl}>
+      {hasChildren && createPortal(children, hosts.content)}
+      {headerActions !== undefined && createPortal(headerActions, hosts.actions)}
+    </PluginControlProvider>
+  );
 }
@@ -0,0 +1,120 @@
+import { debounce } from '../utils';
+
+/**
+ * Bounded undo/redo stacks of state snapshots.
+ *
+ * `record()` is called with the snapshot from before each change. Changes
+ * recorded within `coalesceDelay` milliseconds of each other form one step,
+ * so only the snapshot from before the first of them is kept.
+ *
+ * @example
+ * ```typescript
+ * const history = new StateHistory<State>(50, 300);
+ * history.record(previous);
+ * const restored = history.undo(current);
+ * ```
+ */
+export class StateHistory<T> {
+  private _past: T[] = [];
+  private _future: T[] = [];
+  private _limit: number;
+  private _coalescing = false;
+  private _endStep: () => void;
+
+  /**
+   * Creates a new StateHistory instance.
+   *
+   * @param limit - Maximum number of undo steps. With 0, nothing is recorded.
+   * @param coalesceDelay - Changes within this many milliseconds are merged into one step
+   */
+  constructor(limit: number, coalesceDelay: number) {
+    this._limit = Math.max(0, limit);
+    this._endStep =
+      coalesceDelay > 0
+        ? debounce(() => {
+            this._coalescing = false;
+          }, coalesceDelay)
+        : () => {
+            this._coalescing = false;
+          };
+  }
+
+  /**
+   * Records a change.
+   *
+   * @param previous - The snapshot from before the change
+   * @returns True if a new undo step was stored, false if the change was merged
+   *   into the last one or the limit is 0
+   */
+  record(previous: T): boolean {
+    if (this._limit === 0) return false;
+    const started = !this._coalescing;
+    if (started) {
+      this._past.push(previous);
+      if (this._past.length > this._limit) {
+        this._past.splice(0, this._past.length - this._limit);
+      }
+      this._future = [];
+      this._coalescing = true;
+    }
+    this._endStep();
+    return started;
+  }
+
+  /**
+   * Steps back.
+   *
+   * @param current - The current snapshot, kept for `redo()`
+   * @returns The snapshot to restore, or undefined if there is nothing to undo
+   */
+  undo(current: T): T | undefined {
+    this._coalescing = false;
+    const snapshot = this._past.pop();
+    if (snapshot !== undefined) {
+      this._future.push(current);
+    }
+    return snapshot;
+  }
+
+  /**
+   * Steps forward again after `undo()`.
+   *
+   * @param current - The current snapshot, kept for `undo()`
+   * @returns The snapshot to restore, or undefined if there is nothing to redo
+   */
+  redo(current: T): T | undefined {
+    this._coalescing = false;
+    const snapshot = this._future.pop();
+    if (snapshot !== undefined) {
+      this._past.push(current);
+    }
+    return snapshot;
+  }
+
+  /**
+   * Checks whether there is a step to undo.
+   *
+   * @returns True if `undo()` would return a snapshot
+   */
+  canUndo(): boolean {
+    return this._past.length > 0;
+  }
+
+  /**
+   * Checks whether there is a step to redo.
+   *
+   * @returns True if `redo()` would return a snapshot
+   */
+  canRedo(): boolean {
+    return this._future.length > 0;
+  }
+
+  /**
+   * Removes all steps.
+   */
+  clear(): void {
+    this._past = [];
+    this._future = [];
+    this._coalescing = false;
+  }
+}
@@ -0,0 +1,139 @@
+import type { PluginControlMessages } from './types';
+
+/**
+ * Built-in message catalogues keyed by language
+ */
+export const DEFAULT_MESSAGES: Record<string, PluginControlMessages> = {
+  en: {
+    closePanel: 'Close panel',
+    placeholder: 'Add your custom plugin content here.',
+    noLayers: 'No layers',
+    layerOpacity: '{layer} opacity',
+    invalidNumber: 'Please enter a number.',
+    inspectorHint: 'Click a feature on the map to inspect it.',
+    noFeatures: 'No features here.',
+    featurePage: '{index} of {count}',
+    previousFeature: 'Previous feature',
+    nextFeature: 'Next feature',
+    copyJson: 'Copy as JSON',
+    copied: 'Copied',
+  },
+  de: {
+    closePanel: 'Panel schließen',
+    placeholder: 'Fügen Sie hier Ihre eigenen Plugin-Inhalte hinzu.',
+    noLayers: 'Keine Ebenen',
+    layerOpacity: 'Deckkraft von {layer}',
+    invalidNumber: 'Bitte geben Sie eine Zahl ein.',
+    inspectorHint: 'Klicken Sie auf ein Objekt in der Karte, um es zu untersuchen.',
+    noFeatures: 'Keine Objekte an dieser Stelle.',
+    featurePage: '{index} von {count}',
+    previousFeature: 'Vorheriges Objekt',
+    nextFeature: 'Nächstes Objekt',
+    copyJson: 'Als JSON kopieren',
+    copied: 'Kopiert',
+  },
+  fr: {
+    closePanel: 'Fermer le panneau',
+    placeholder: 'Ajoutez ici le contenu de votre plugin.',
+    noLayers: 'Aucune couche',
+    layerOpacity: 'Opacité de {layer}',
+    invalidNumber: 'Veuillez saisir un nombre.',
+    inspectorHint: 'Cliquez sur un objet de la carte pour l’inspecter.',
+    noFeatures: 'Aucun objet ici.',
+    featurePage: '{index} sur {count}',
+    previousFeature: 'Objet précédent',
+    nextFeature: 'Objet suivant',
+    copyJson: 'Copier en JSON',
+    copied: 'Copié',
+  },
+  es: {
+    closePanel: 'Cerrar panel',
+    placeholder: 'Agregue aquí el contenido de su plugin.',
+    noLayers: 'Sin capas',
+    layerOpacity: 'Opacidad de {layer}',
+    invalidNumber: 'Introduzca un número.',
+    inspectorHint: 'Haga clic en un elemento del mapa para inspeccionarlo.',
+    noFeatures: 'No hay elementos aquí.',
+    featurePage: '{index} de {count}',
+    previousFeature: 'Elemento anterior',
+    nextFeature: 'Elemento siguiente',
+    copyJson: 'Copiar como JSON',
+    copied: 'Copiado',
+  },
+  ar: {
+    closePanel: 'إغلاق اللوحة',
+    placeholder: 'أضف محتوى المكوّن الإضافي هنا.',
+    noLayers: 'لا توجد طبقات',
+    layerOpacity: 'شفافية {layer}',
+    invalidNumber: 'الرجاء إدخال رقم.',
+    inspectorHint: 'انقر على عنصر في الخريطة لفحصه.',
+    noFeatures: 'لا توجد عناصر هنا.',
+    featurePage: '{index} من {count}',
+    previousFeature: 'العنصر السابق',
+    nextFeature: 'العنصر التالي',
+    copyJson: 'نسخ بتنسيق JSON',
+    copied: 'تم النسخ',
+  },
+};
+
+/**
+ * Looks up a message and substitutes `{name}` placeholders
+ */
+export type Translator = (
+  key: keyof PluginControlMessages,
+  params?: Record<string, string | number>
+) => string;
+
+/**
+ * Returns the locales to try for a locale, most specific first.
+ *
+ * @param locale - A BCP 47 locale such as `'de-AT'`
+ * @returns The locale followed by its language, e.g. `['de-AT', 'de']`
+ */
+function getLocaleChain(locale: string): string[] {
+  const language = locale.split('-')[0];
+  return language && language !== locale ? [locale, language] : [locale];
+}
+
+/**
+ * Creates a translator for a locale.
+ *
+ * Messages are resolved from the overrides for the locale, the built-in catalogue
+ * for the locale, then the same for its base language and the fallback locale.
+ * English is always used as the last resort.
+ *
+ * @param locale - The requested locale
+ * @param fallbackLocale - Locale used for keys missing in the requested locale
+ * @param overrides - Custom messages keyed by locale
+ * @returns The translator
+ *
+ * @example
+ * ```typescript
+ * const t = createTranslator('de-AT', 'en', { de: { noLayers: 'Leer' } });
+ * t('noLayers'); // "Leer"
+ * t('layerOpacity', { layer: 'water' }); // "Deckkraft von water"
+ * ```
+ */
+export function createTranslator(
+  locale: string,
+  fallbackLocale = 'en',
+  overrides: Record<string, Partial<PluginControlMessages>> = {}
+): Translator {
+  const chain = [...getLocaleChain(locale), ...getLocaleChain(fallbackLocale), 'en'];
+  const catalogues = chain.flatMap((code) => [overrides[code], DEFAULT_MESSAGES[code]]);
+
+  return (key, params) => {
+    let message: string = key;
+    for (const catalogue of catalogues) {
+      const value = catalogue?.[key];
+      if (value !== undefined) {
+        message = value;
+        break;
+      }
+    }
+    if (!params) return message;
+    return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+      name in params ? String(params[name]) : match
+    );
+  };
+}
@@ -0,0 +1,182 @@
+import type {
+  PersistedPluginState,
+  PluginControlPersistOptions,
+  PluginState,
+  PluginStateStorage,
+  PluginStateStorageType,
+} from './types';
+
+/**
+ * Default storage key
+ */
+const DEFAULT_KEY = 'plugin-control';
+
+/**
+ * Creates a storage adapter that stores values as a parameter in the URL hash or query string.
+ * Only the adapter's own `key=value` parameter is changed; the rest of the URL part is kept
+ * as it is, so e.g. a MapLibre `hash: true` view (`#12/37.7/-122.4`) stays readable.
+ * The URL is updated with `history.replaceState` so no history entries are added.
+ *
+ * @param part - Which part of the URL holds the parameters
+ * @returns The storage adapter
+ */
+export function createUrlStorage(part: 'hash' | 'query'): PluginStateStorage {
+  const read = (): string[] => {
+    const value = (part === 'hash' ? window.location.hash : window.location.search).slice(1);
+    return value ? value.split('&') : [];
+  };
+
+  const write = (segments: string[]): void => {
+    const value = segments.join('&');
+    const url = new URL(window.location.href);
+    if (part === 'hash') {
+      url.hash = value;
+    } else {
+      url.search = value;
+    }
+    window.history.replaceState(window.history.state, '', url.toString());
+  };
+
+  // Segments are matched by their encoded name, e.g. `pc=` for the key `pc`
+  const prefix = (key: string): string => new URLSearchParams({ [key]: '' }).toString();
+  const without = (segments: string[], key: string): string[] =>
+    segments.filter((segment) => !segment.startsWith(prefix(key)));
+
+  return {
+    getItem: (key) => {
+      const segment = read().find((item) => item.startsWith(prefix(key)));
+      return segment === undefined ? null : new URLSearchParams(segment).get(key);
+    },
+    setItem: (key, value) => {
+      write([...without(read(), key), new URLSearchParams({ [key]: value }).toString()]);
+    },
+    removeItem: (key) => {
+      write(without(read(), key));
+    },
+  };
+}
+
+/**
+ * Resolves a storage option to an adapter.
+ *
+ * @param storage - A built-in adapter name or a custom adapter
+ * @returns The adapter, or null if the storage is unavailable
+ */
+export function resolveStorage(
+  storage: PluginStateStorageType | PluginStateStorage = 'localStorage'
+): PluginStateStorage | null {
+  if (typeof storage !== 'string') return storage;
+  if (typeof window === 'undefined') return null;
+
+  try {
+    switch (storage) {
+      case 'localStorage':
+        return window.localStorage;
+      case 'sessionStorage':
+        return window.sessionStorage;
+      case 'hash':
+      case 'query':
+        return createUrlStorage(storage);
+    }
+  } catch {
+    // Accessing web storage throws when it is disabled (e.g. blocked cookies)
+    return null;
+  }
+}
+
+/**
+ * Keeps only the whitelisted keys of the state data.
+ *
+ * @param data - The state data
+ * @param dataKeys - Keys to keep, or undefined to keep all
+ * @returns The filtered data
+ */
+function pickData(
+  data: Record<string, unknown> | undefined,
+  dataKeys: string[] | undefined
+): Record<string, unknown> {
+  if (!data) return {};
+  if (!dataKeys) return { ...data };
+
+  const picked: Record<string, unknown> = {};
+  for (const key of dataKeys) {
+    if (key in data) picked[key] = data[key];
+  }
+  return picked;
+}
+
+/**
+ * Loads previously persisted state.
+ *
+ * @param options - Persistence options
+ * @param onError - Called with the error when `options.migrate` throws; the stored state is then ignored
+ * @returns The restored partial state, or null if nothing usable was stored
+ */
+export function loadPersistedState(
+  options: PluginControlPersistOptions,
+  onError?: (error: unknown) => void
+): Partial<PluginState> | null {
+  const storage = resolveStorage(options.storage);
+  if (!storage) return null;
+
+  let payload: PersistedPluginState;
+  try {
+    const raw = storage.getItem(options.key ?? DEFAULT_KEY);
+    if (!raw) return null;
+    payload = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!payload || typeof payload !== 'object' || typeof payload.state !== 'object') {
+    return null;
+  }
+
+  const version = options.version ?? 1;
+  let state: Partial<PluginState> | null = payload.state;
+  if (payload.version !== version) {
+    try {
+      state = options.migrate ? options.migrate(payload.state, payload.version) : null;
+    } catch (error) {
+      onError?.(error);
+      return null;
+    }
+  }
+  if (!state) return null;
+
+  return { ...state, data: pickData(state.data, options.dataKeys) };
+}
+
+/**
+ * Writes the state to storage.
+ *
+ * @param options - Persistence options
+ * @param state - The state to persist
+ */
+export function savePersistedState(options: PluginControlPersistOptions, state: PluginState): void {
+  const storage = resolveStorage(options.storage);
+  if (!storage) return;
+
+  const payload: PersistedPluginState = {
+    version: options.version ?? 1,
+    state: { ...state, data: pickData(state.data, options.dataKeys) },
+  };
+
+  try {
+    storage.setItem(options.key ?? DEFAULT_KEY, JSON.stringify(payload));
+  } catch {
+    // Quota exceeded or storage disabled; persistence is best effort
+  }
+}
+
+/**
+ * Removes persisted state from storage.
+ *
+ * @param options - Persistence options
+ */
+export function clearPersistedState(options: PluginControlPersistOptions): void {
+  try {
+    resolveStorage(options.storage)?.removeItem(options.key ?? DEFAULT_KEY);
+  } catch {
+    // Storage disabled; nothing to clear
+  }
+}
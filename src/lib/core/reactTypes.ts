@@ -0,0 +1,62 @@
+import type { Map } from 'maplibre-gl';
+import type { ReactNode } from 'react';
+import type { PluginControl } from './PluginControl';
+import type { PluginControlOptions, PluginState, PluginStateData } from './types';
+
+// React-only types, kept out of ./types so the core entry does not need React types
+
+/**
+ * Props for the React wrapper component
+ */
+export interface PluginControlReactProps<TData extends PluginStateData = PluginStateData>
+  extends PluginControlOptions<TData> {
+  /**
+   * MapLibre GL map instance. Defaults to the map from the nearest MapProvider.
+   */
+  map?: Map | null;
+
+  /**
+   * Callback fired when the control state changes
+   */
+  onStateChange?: (state: PluginState<TData>) => void;
+
+  /**
+   * React content rendered into the panel through a portal
+   */
+  children?: ReactNode;
+
+  /**
+   * React content rendered into the panel header, next to the close button
+   */
+  headerActions?: ReactNode;
+}
+
+/**
+ * Props for the MapProvider component
+ */
+export interface MapProviderProps {
+  /**
+   * MapLibre GL map instance, or null while it is being created
+   */
+  map: Map | null;
+
+  /**
+   * Components that can access the map
+   */
+  children?: ReactNode;
+}
+
+/**
+ * Props for the PluginControlProvider component
+ */
+export interface PluginControlProviderProps {
+  /**
+   * The control to provide
+   */
+  control: PluginControl | null;
+
+  /**
+   * Components that can access the control
+   */
+  children?: ReactNode;
+}
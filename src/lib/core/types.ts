@@ -1,9 +1,177 @@
-import type { Map } from 'maplibre-gl';
+import type {
+  Map,
+  LayerSpecification,
+  MapGeoJSONFeature,
+  MapMouseEvent,
+  StyleImageMetadata,
+} from 'maplibre-gl';
+import type { PluginControl } from './PluginControl';
+import type { PluginControlGroup } from './PluginControlGroup';
+
+/**
+ * Callback that renders the panel content.
+ * Re-invoked whenever the control state changes.
+ *
+ * Return an element or HTML string to replace the content area, or nothing
+ * if the callback updated the content area itself.
+ */
+export type PluginControlContentRenderer<TData extends PluginStateData = PluginStateData> = (
+  control: PluginControl<TData>,
+  map: Map,
+  state: PluginState<TData>
+) => HTMLElement | string | null | void;
+
+/**
+ * Content that can be displayed inside the control panel
+ */
+export type PluginControlContent<TData extends PluginStateData = PluginStateData> =
+  | HTMLElement
+  | string
+  | PluginControlContentRenderer<TData>;
+
+/**
+ * Color theme of the control
+ */
+export type PluginControlTheme = 'light' | 'dark' | 'auto';
+
+/**
+ * Built-in labels of the control. Values may contain `{name}` placeholders.
+ */
+export interface PluginControlMessages {
+  /**
+   * Accessible label of the panel's close button
+   */
+  closePanel: string;
+
+  /**
+   * Text shown when the panel has no content
+   */
+  placeholder: string;
+
+  /**
+   * Text shown by the layer manager when no layers match
+   */
+  noLayers: string;
+
+  /**
+   * Accessible label of a layer manager opacity slider (`{layer}` is the layer id)
+   */
+  layerOpacity: string;
+
+  /**
+   * Validation message for numeric fields that do not contain a number
+   */
+  invalidNumber: string;
+
+  /**
+   * Text shown by the feature inspector before a feature was clicked
+   */
+  inspectorHint: string;
+
+  /**
+   * Text shown by the feature inspector when a click hit no features
+   */
+  noFeatures: string;
+
+  /**
+   * Position among overlapping features (`{index}` and `{count}`)
+   */
+  featurePage: string;
+
+  /**
+   * Accessible label of the feature inspector's previous button
+   */
+  previousFeature: string;
+
+  /**
+   * Accessible label of the feature inspector's next button
+   */
+  nextFeature: string;
+
+  /**
+   * Label of the feature inspector's copy button
+   */
+  copyJson: string;
+
+  /**
+   * Copy button label after the feature was copied
+   */
+  copied: string;
+}
+
+/**
+ * Badge shown on the toggle button: a count or label, `true` for a dot,
+ * or `null`/`false`/`0` to hide it
+ */
+export type PluginControlBadge = number | string | boolean | null;
+
+/**
+ * Corner of the map the control is placed in
+ */
+export type PluginControlPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+/**
+ * Display mode of the control panel
+ */
+export type PluginControlPanelMode = 'floating' | 'docked-left' | 'docked-right' | 'external';
+
+/**
+ * Map interaction handlers that an interaction mode can disable
+ */
+export type PluginControlMapHandler =
+  | 'boxZoom'
+  | 'scrollZoom'
+  | 'dragPan'
+  | 'dragRotate'
+  | 'keyboard'
+  | 'doubleClickZoom'
+  | 'touchZoomRotate'
+  | 'touchPitch';
+
+/**
+ * Options of an interaction mode started with `PluginControl.activateMode`
+ */
+export interface PluginControlModeOptions {
+  /**
+   * Cursor shown over the map while the mode is active
+   * @default 'crosshair'
+   */
+  cursor?: string;
+
+  /**
+   * Map handlers disabled while the mode is active and re-enabled afterwards,
+   * e.g. `['dragPan', 'doubleClickZoom']` for drawing
+   * @default []
+   */
+  disableHandlers?: PluginControlMapHandler[];
+
+  /**
+   * End the mode when Escape is pressed
+   * @default true
+   */
+  cancelOnEscape?: boolean;
+
+  /**
+   * Called for map clicks while the mode is active. Other modes do not receive them.
+   */
+  onClick?: (event: MapMouseEvent) => void;
+}
+
+/**
+ * Why an interaction mode ended: `deactivateMode()` was called, another mode
+ * replaced it, Escape was pressed, or the control was removed from the map
+ */
+export type PluginControlModeExitReason = 'deactivate' | 'replaced' | 'escape' | 'remove';
+
+/**
+ * Snap point of the bottom sheet presentation
+ */
+export type PluginControlSheetSnap = 'peek' | 'half' | 'full';
 
 /**
  * Options for configuring the PluginControl
  */
-export interface PluginControlOptions {
+export interface PluginControlOptions<TData extends PluginStateData = PluginStateData> {
   /**
    * Whether the control panel should start collapsed (showing only the toggle button)
    * @default true
@@ -14,7 +182,7 @@ export interface PluginControlOptions {
    * Position of the control on the map
    * @default 'top-right'
    */
-  position?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+  position?: PluginControlPosition;
 
   /**
    * Title displayed in the control header
@@ -28,16 +196,492 @@ export interface PluginControlOptions {
    */
   panelWidth?: number;
 
+  /**
+   * Initial height of the control panel in pixels. Sized to its content when omitted.
+   */
+  panelHeight?: number | null;
+
+  /**
+   * Whether the panel can be resized with a handle
+   * @default false
+   */
+  resizable?: boolean;
+
+  /**
+   * Minimum panel width in pixels when resizing
+   * @default 200
+   */
+  minPanelWidth?: number;
+
+  /**
+   * Maximum panel width in pixels when resizing
+   * @default 600
+   */
+  maxPanelWidth?: number;
+
+  /**
+   * Minimum panel height in pixels when resizing
+   * @default 100
+   */
+  minPanelHeight?: number;
+
+  /**
+   * Maximum panel height in pixels when resizing
+   * @default 800
+   */
+  maxPanelHeight?: number;
+
+  /**
+   * Whether the panel can be moved anywhere inside the map container by dragging its header
+   * @default false
+   */
+  draggable?: boolean;
+
+  /**
+   * Move focus into the panel when the user expands it with the toggle button or the keyboard
+   * shortcut, and back to the toggle button when it collapses with focus inside.
+   * Programmatic expands such as `expand()` leave focus where it is.
+   * @default true
+   */
+  autoFocus?: boolean;
+
+  /**
+   * Keep keyboard focus inside the panel while it is expanded
+   * @default false
+   */
+  trapFocus?: boolean;
+
+  /**
+   * Keyboard shortcut that toggles the panel while focus is anywhere on the map,
+   * e.g. `'Alt+P'` or `'Mod+K'`. Disabled when `null`.
+   * @default null
+   */
+  keyboardShortcut?: string | null;
+
+  /**
+   * Color theme. `'auto'` follows the user's `prefers-color-scheme` setting.
+   * @default 'light'
+   */
+  theme?: PluginControlTheme;
+
+  /**
+   * Locale used for built-in labels, e.g. `'en'` or `'de-AT'`
+   * @default 'en'
+   */
+  locale?: string;
+
+  /**
+   * Locale used for labels missing in the requested locale
+   * @default 'en'
+   */
+  fallbackLocale?: string;
+
+  /**
+   * Custom or overriding messages keyed by locale
+   */
+  messages?: Record<string, Partial<PluginControlMessages>>;
+
+  /**
+   * Icon of the toggle button: an SVG string, an element, or an image URL.
+   * A default icon is used when `null`.
+   * @default null
+   */
+  icon?: string | HTMLElement | null;
+
+  /**
+   * Tooltip shown when hovering or focusing the toggle button.
+   * `true` uses the title, a string sets custom text and `false` disables it.
+   * @default true
+   */
+  tooltip?: boolean | string;
+
+  /**
+   * How the panel is displayed: floating next to the button, docked as a
+   * full-height sidebar beside the map, or rendered into `panelContainer`
+   * @default 'floating'
+   */
+  panelMode?: PluginControlPanelMode;
+
+  /**
+   * Element (or selector) the panel is rendered into when `panelMode` is `'external'`
+   */
+  panelContainer?: HTMLElement | string | null;
+
+  /**
+   * Map width in pixels below which a floating panel is presented as a bottom sheet,
+   * or null to always use the floating panel
+   * @default null
+   */
+  mobileBreakpoint?: number | null;
+
+  /**
+   * Heights the bottom sheet snaps to after it is dragged
+   * @default ['peek', 'half', 'full']
+   */
+  sheetSnapPoints?: PluginControlSheetSnap[];
+
+  /**
+   * Snap point the bottom sheet opens at
+   * @default 'half'
+   */
+  sheetSnap?: PluginControlSheetSnap;
+
+  /**
+   * Also fire the control's events on the map so they can be observed with `map.on()`.
+   * `true` fires them as `plugincontrol.<event>`; a string sets another prefix.
+   * @default false
+   */
+  forwardEvents?: boolean | string;
+
+  /**
+   * Group coordinating this control with others, e.g. so only one panel is open at a time
+   */
+  group?: PluginControlGroup | null;
+
   /**
    * Custom CSS class name for the control container
    */
   className?: string;
+
+  /**
+   * Content rendered inside the panel: an element, an HTML string, or a render callback.
+   * When omitted a placeholder is shown.
+   */
+  content?: PluginControlContent<TData> | null;
+
+  /**
+   * Form fields rendered in the panel when no `content` is set.
+   * Field values are stored in `PluginState.data` under each field's key.
+   */
+  fields?: PluginControlField[];
+
+  /**
+   * Shows a layer manager listing the map style's layers when no `content` is set.
+   * Pass `true` to list every layer or an options object to filter them.
+   * @default false
+   */
+  layerManager?: boolean | LayerManagerOptions;
+
+  /**
+   * Shows a feature inspector when no `content` is set: while the panel is open,
+   * clicking the map lists the properties of the features under the cursor.
+   * Pass `true` for the defaults or an options object.
+   * @default false
+   */
+  inspector?: boolean | FeatureInspectorOptions;
+
+  /**
+   * Persists the control state so it survives page reloads.
+   * Disabled when omitted or `null`.
+   */
+  persist?: PluginControlPersistOptions | null;
+
+  /**
+   * Records state changes so they can be undone with `undo()` and `redo()`.
+   * Pass `true` for the defaults or an options object. Disabled when omitted or `false`.
+   */
+  history?: boolean | PluginControlHistoryOptions;
+
+  /**
+   * When `statechange` is emitted after `setState()`. Changes made before it is
+   * emitted are reported together. `'sync'` emits after every change.
+   * @default 'microtask'
+   */
+  scheduler?: PluginControlScheduler;
+}
+
+/**
+ * When state changes are reported: once per microtask, once per animation frame, or immediately
+ */
+export type PluginControlScheduler = 'microtask' | 'frame' | 'sync';
+
+/**
+ * Options for the undo/redo history
+ */
+export interface PluginControlHistoryOptions {
+  /**
+   * Maximum number of undo steps kept; older steps are dropped
+   * @default 50
+   */
+  limit?: number;
+
+  /**
+   * Changes made within this many milliseconds of each other are recorded as a single
+   * step, so dragging a slider is undone at once. `0` records every change.
+   * @default 300
+   */
+  coalesceDelay?: number;
+
+  /**
+   * State keys that are recorded and restored. Other keys, e.g. the panel size, are
+   * left alone by `undo()` and `redo()`.
+   * @default ['data']
+   */
+  keys?: Exclude<keyof PluginState, 'collapsed'>[];
+
+  /**
+   * Undo with Ctrl/Cmd+Z and redo with Ctrl/Cmd+Shift+Z or Ctrl/Cmd+Y while the panel
+   * has focus. Text fields keep their native undo.
+   * @default true
+   */
+  keyboard?: boolean;
 }
 
+/**
+ * Storage adapter used to persist the control state.
+ * Values are serialized JSON strings.
+ */
+export interface PluginStateStorage {
+  /**
+   * Reads the stored value for a key
+   */
+  getItem(key: string): string | null;
+
+  /**
+   * Writes a value for a key
+   */
+  setItem(key: string, value: string): void;
+
+  /**
+   * Removes the stored value for a key
+   */
+  removeItem(key: string): void;
+}
+
+/**
+ * Built-in storage adapters
+ */
+export type PluginStateStorageType = 'localStorage' | 'sessionStorage' | 'hash' | 'query';
+
+/**
+ * Serialized state written to storage
+ */
+export interface PersistedPluginState {
+  /**
+   * Version of the payload format, compared against `PluginControlPersistOptions.version`
+   */
+  version: number;
+
+  /**
+   * The persisted state
+   */
+  state: Partial<PluginState>;
+}
+
+/**
+ * Options for persisting and restoring the control state
+ */
+export interface PluginControlPersistOptions {
+  /**
+   * Where to store the state: a built-in adapter name or a custom adapter
+   * @default 'localStorage'
+   */
+  storage?: PluginStateStorageType | PluginStateStorage;
+
+  /**
+   * Key under which the state is stored (the parameter name for `hash` and `query`)
+   * @default 'plugin-control'
+   */
+  key?: string;
+
+  /**
+   * Only persist these keys of `PluginState.data`. All keys are persisted when omitted.
+   */
+  dataKeys?: string[];
+
+  /**
+   * Version written with the payload
+   * @default 1
+   */
+  version?: number;
+
+  /**
+   * Upgrades a payload stored with a different version.
+   * Return `null` to discard it. Payloads with a different version are discarded when omitted.
+   */
+  migrate?: (state: Partial<PluginState>, fromVersion: number) => Partial<PluginState> | null;
+}
+
+/**
+ * Image accepted by `PluginControl.addManagedImage`, as for `map.addImage`
+ */
+export type ManagedImage = Parameters<Map['addImage']>[1];
+
+/**
+ * Metadata of a managed image, e.g. `pixelRatio` or `sdf`
+ */
+export type ManagedImageOptions = Partial<StyleImageMetadata>;
+
+/**
+ * Options for the built-in layer manager panel
+ */
+export interface LayerManagerOptions {
+  /**
+   * Only list layers whose id matches this pattern.
+   * Strings are matched as substrings.
+   */
+  idPattern?: RegExp | string;
+
+  /**
+   * Only list layers that use one of these sources
+   */
+  source?: string | string[];
+
+  /**
+   * Custom predicate applied after the id and source filters.
+   * It receives the serialized layer and runs on every style change, so keep it cheap.
+   */
+  filter?: (layer: LayerSpecification) => boolean;
+
+  /**
+   * Whether to show opacity sliders
+   * @default true
+   */
+  showOpacity?: boolean;
+
+  /**
+   * Whether layers can be reordered by dragging
+   * @default true
+   */
+  reorderable?: boolean;
+}
+
+/**
+ * Options for the built-in feature inspector
+ */
+export interface FeatureInspectorOptions {
+  /**
+   * Only inspect features of these layers. All rendered layers are queried when omitted.
+   */
+  layers?: string[];
+
+  /**
+   * Pixels around the click point that count as a hit
+   * @default 3
+   */
+  tolerance?: number;
+
+  /**
+   * Feature-state key set to `true` on the selected feature, so layers can style it,
+   * e.g. `['case', ['boolean', ['feature-state', 'selected'], false], 'red', 'gray']`.
+   * Features without an id are not highlighted. `null` disables highlighting.
+   * @default 'selected'
+   */
+  highlightState?: string | null;
+}
+
+/**
+ * Result of a field validator: an error message, or `null`/`undefined` when valid
+ */
+export type PluginControlFieldValidator<T> = (value: T, state: PluginState) => string | null | undefined;
+
+/**
+ * Properties shared by all form field types
+ */
+interface PluginControlFieldBase<TType extends string, TValue> {
+  /**
+   * Field type
+   */
+  type: TType;
+
+  /**
+   * Key under which the value is stored in `PluginState.data`
+   */
+  key: string;
+
+  /**
+   * Label displayed above the input. Defaults to the key.
+   */
+  label?: string;
+
+  /**
+   * Initial value used when `PluginState.data` has no value for the key
+   */
+  defaultValue?: TValue;
+
+  /**
+   * Whether the input is disabled
+   */
+  disabled?: boolean;
+
+  /**
+   * Optional validator run before the value is written to state
+   */
+  validate?: PluginControlFieldValidator<TValue>;
+}
+
+/**
+ * Numeric field rendered as a slider or number input
+ */
+export interface PluginControlNumericField extends PluginControlFieldBase<'range' | 'number', number> {
+  /**
+   * Minimum allowed value
+   * @default 0 for `range`, unbounded for `number`
+   */
+  min?: number;
+
+  /**
+   * Maximum allowed value
+   * @default 100 for `range`, unbounded for `number`
+   */
+  max?: number;
+
+  /**
+   * Step size, also used to format the displayed value
+   * @default 1
+   */
+  step?: number;
+}
+
+/**
+ * Drop-down selection field
+ */
+export interface PluginControlSelectField extends PluginControlFieldBase<'select', string> {
+  /**
+   * Available options, either plain values or value/label pairs
+   */
+  options: Array<string | { value: string; label?: string }>;
+}
+
+/**
+ * Boolean field rendered as a checkbox
+ */
+export type PluginControlCheckboxField = PluginControlFieldBase<'checkbox', boolean>;
+
+/**
+ * Color field rendered as a color picker
+ */
+export type PluginControlColorField = PluginControlFieldBase<'color', string>;
+
+/**
+ * Free-form text field
+ */
+export interface PluginControlTextField extends PluginControlFieldBase<'text', string> {
+  /**
+   * Placeholder text shown when the input is empty
+   */
+  placeholder?: string;
+}
+
+/**
+ * Schema describing a single form field
+ */
+export type PluginControlField =
+  | PluginControlNumericField
+  | PluginControlSelectField
+  | PluginControlCheckboxField
+  | PluginControlColorField
+  | PluginControlTextField;
+
+/**
+ * Shape of the custom data stored in `PluginState.data`
+ */
+export type PluginStateData = Record<string, unknown>;
+
 /**
  * Internal state of the plugin control
  */
-export interface PluginState {
+export interface PluginState<TData extends PluginStateData = PluginStateData> {
   /**
    * Whether the control panel is currently collapsed
    */
@@ -48,33 +692,264 @@ export interface PluginState {
    */
   panelWidth: number;
 
+  /**
+   * Current panel height in pixels, or null when sized to its content
+   */
+  panelHeight?: number | null;
+
+  /**
+   * Position of the panel's top-left corner relative to the map container after
+   * it was dragged, or null when placed next to the toggle button
+   */
+  panelOffset?: { x: number; y: number } | null;
+
   /**
    * Any custom state data
    */
-  data?: Record<string, unknown>;
+  data?: TData;
+}
+
+/**
+ * Recursively optional version of a type. Arrays are replaced as a whole, so they stay complete.
+ */
+export type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends readonly unknown[]
+    ? T[K]
+    : T[K] extends object | null | undefined
+      ? DeepPartial<T[K]> | Extract<T[K], null | undefined>
+      : T[K];
+};
+
+/**
+ * Partial state that `setState` deep-merges into the current state
+ */
+export type PluginStateUpdate<TData extends PluginStateData = PluginStateData> = DeepPartial<
+  PluginState<TData>
+>;
+
+/**
+ * Computes the next state from the current one. The returned state replaces the
+ * current state, so keys can be removed; return the given objects for unchanged parts.
+ */
+export type PluginStateUpdater<TData extends PluginStateData = PluginStateData> = {
+  // Method syntax keeps the parameter bivariant, so PluginControl<TData> stays assignable to PluginControl
+  bivarianceHack(state: PluginState<TData>): PluginState<TData>;
+}['bivarianceHack'];
+
+/**
+ * Callback of `PluginControl.subscribe`, called when the value at the subscribed path changes
+ */
+export type PluginStatePathListener<
+  TValue = unknown,
+  TData extends PluginStateData = PluginStateData,
+> = (value: TValue, previousValue: TValue, state: PluginState<TData>) => void;
+
+/**
+ * Fields shared by all event payloads
+ */
+export interface PluginControlEventBase<
+  TType extends string = string,
+  TData extends PluginStateData = PluginStateData,
+> {
+  /**
+   * The event type
+   */
+  type: TType;
+
+  /**
+   * Snapshot of the control state
+   */
+  state: PluginState<TData>;
+}
+
+/**
+ * Payload of the `statechange` event
+ */
+export interface PluginControlStateChangeEventData<TData extends PluginStateData = PluginStateData>
+  extends PluginControlEventBase<'statechange', TData> {
+  /**
+   * Snapshot of the state before the change
+   */
+  previousState: PluginState<TData>;
+
+  /**
+   * Top-level state keys whose values changed
+   */
+  changedKeys: (keyof PluginState)[];
+
+  /**
+   * Keys of `state.data` whose values changed
+   */
+  changedDataKeys: string[];
+}
+
+/**
+ * Payload of the `fieldchange` event
+ */
+export interface PluginControlFieldChangeEventData<TData extends PluginStateData = PluginStateData>
+  extends PluginControlEventBase<'fieldchange', TData> {
+  /**
+   * Key of the changed field
+   */
+  key: string;
+
+  /**
+   * Previous field value
+   */
+  oldValue: unknown;
+
+  /**
+   * New field value
+   */
+  newValue: unknown;
+}
+
+/**
+ * Payload of the `historychange` event
+ */
+export interface PluginControlHistoryChangeEventData<
+  TData extends PluginStateData = PluginStateData,
+> extends PluginControlEventBase<'historychange', TData> {
+  /**
+   * Whether `undo()` would change the state
+   */
+  canUndo: boolean;
+
+  /**
+   * Whether `redo()` would change the state
+   */
+  canRedo: boolean;
+}
+
+/**
+ * Payload of the `modeenter` event
+ */
+export interface PluginControlModeEnterEventData<TData extends PluginStateData = PluginStateData>
+  extends PluginControlEventBase<'modeenter', TData> {
+  /**
+   * Name of the interaction mode
+   */
+  mode: string;
 }
 
 /**
- * Props for the React wrapper component
+ * Payload of the `modeexit` event
  */
-export interface PluginControlReactProps extends PluginControlOptions {
+export interface PluginControlModeExitEventData<TData extends PluginStateData = PluginStateData>
+  extends PluginControlEventBase<'modeexit', TData> {
   /**
-   * MapLibre GL map instance
+   * Name of the interaction mode
    */
-  map: Map;
+  mode: string;
 
   /**
-   * Callback fired when the control state changes
+   * Why the mode ended
    */
-  onStateChange?: (state: PluginState) => void;
+  reason: PluginControlModeExitReason;
+}
+
+/**
+ * Payload of the `featureselect` event
+ */
+export interface PluginControlFeatureSelectEventData<
+  TData extends PluginStateData = PluginStateData,
+> extends PluginControlEventBase<'featureselect', TData> {
+  /**
+   * The feature shown by the inspector, or null when none was found
+   */
+  feature: MapGeoJSONFeature | null;
+
+  /**
+   * All features found at the clicked point, top-most first
+   */
+  features: MapGeoJSONFeature[];
+}
+
+/**
+ * Payload of the `error` event, emitted when an event handler throws
+ */
+export interface PluginControlErrorEventData<TData extends PluginStateData = PluginStateData>
+  extends PluginControlEventBase<'error', TData> {
+  /**
+   * The thrown value
+   */
+  error: unknown;
+
+  /**
+   * Type of the event whose handler threw, or `'migrate'` when `persist.migrate` threw
+   */
+  event: string;
+}
+
+/**
+ * Payloads of the built-in events keyed by event type.
+ * Extend it to declare custom events emitted by a subclass.
+ *
+ * @example
+ * ```typescript
+ * interface MyEvents extends PluginControlEventMap<MyData> {
+ *   refresh: PluginControlEventBase<'refresh', MyData> & { source: string };
+ * }
+ * ```
+ */
+export interface PluginControlEventMap<TData extends PluginStateData = PluginStateData> {
+  collapse: PluginControlEventBase<'collapse', TData>;
+  expand: PluginControlEventBase<'expand', TData>;
+  statechange: PluginControlStateChangeEventData<TData>;
+  fieldchange: PluginControlFieldChangeEventData<TData>;
+  resize: PluginControlEventBase<'resize', TData>;
+  move: PluginControlEventBase<'move', TData>;
+  remove: PluginControlEventBase<'remove', TData>;
+  error: PluginControlErrorEventData<TData>;
+  historychange: PluginControlHistoryChangeEventData<TData>;
+  modeenter: PluginControlModeEnterEventData<TData>;
+  modeexit: PluginControlModeExitEventData<TData>;
+  featureselect: PluginControlFeatureSelectEventData<TData>;
 }
 
 /**
  * Event types emitted by the plugin control
  */
-export type PluginControlEvent = 'collapse' | 'expand' | 'statechange';
+export type PluginControlEvent = keyof PluginControlEventMap;
+
+/**
+ * Payload passed to handlers of the built-in events, discriminated by `type`
+ */
+export type PluginControlEventData<TData extends PluginStateData = PluginStateData> =
+  PluginControlEventMap<TData>[PluginControlEvent];
 
 /**
  * Event handler function type
  */
-export type PluginControlEventHandler = (event: { type: PluginControlEvent; state: PluginState }) => void;
+export type PluginControlEventHandler<TEvent = PluginControlEventData> = (event: TEvent) => void;
+
+/**
+ * Options for configuring a PluginControlGroup
+ */
+export interface PluginControlGroupOptions {
+  /**
+   * Collapse the other members when one panel expands
+   * @default true
+   */
+  accordion?: boolean;
+
+  /**
+   * z-index of the bottom-most panel; later panels stack above it
+   * @default 1000
+   */
+  zIndexBase?: number;
+}
+
+/**
+ * Event types emitted by a control group
+ */
+export type PluginControlGroupEvent = 'expand' | 'collapse';
+
+/**
+ * Control group event handler function type
+ */
+export type PluginControlGroupEventHandler = (event: {
+  type: PluginControlGroupEvent;
+  control: PluginControl;
+  group: PluginControlGroup;
+}) => void;
@@ -1,5 +1,7 @@
-import { useState, useCallback } from 'react';
-import type { PluginState } from '../core/types';
+import { useState, useCallback, useMemo, useSyncExternalStore } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import { PluginControl } from '../core/PluginControl';
+import type { PluginState, PluginStateData } from '../core/types';
 
 /**
  * Default initial state for the plugin
@@ -10,11 +12,69 @@ const DEFAULT_STATE: PluginState = {
   data: {},
 };
 
+/**
+ * External store over a control's state for useSyncExternalStore
+ */
+interface PluginStateStore<TData extends PluginStateData> {
+  initialState: PluginState<TData> | null;
+  subscribe: (onChange: () => void) => () => void;
+  getSnapshot: () => PluginState<TData> | null;
+}
+
+/**
+ * Creates a store over the control state. `getState()` returns the same object
+ * until the state changes, so it can be used as the snapshot directly and
+ * changes made between render and subscribe are not missed.
+ *
+ * @param control - The control, or null for an empty store
+ * @returns The store
+ */
+function createStateStore<TData extends PluginStateData>(
+  control: PluginControl<TData> | null
+): PluginStateStore<TData> {
+  return {
+    initialState: control?.getState() ?? null,
+    subscribe: (onChange) => {
+      if (!control) return () => {};
+      control.on('statechange', onChange);
+      return () => control.off('statechange', onChange);
+    },
+    getSnapshot: () => control?.getState() ?? null,
+  };
+}
+
+/**
+ * Writes state to a control. `collapsed` goes through expand()/collapse()
+ * so the panel is shown or hidden as well.
+ *
+ * @param control - The control to update
+ * @param state - The state to merge
+ */
+function writeState<TData extends PluginStateData>(
+  control: PluginControl<TData>,
+  state: Partial<PluginState<TData>>
+): void {
+  const { collapsed, ...rest } = state;
+  if (Object.keys(rest).length > 0) {
+    // Top-level keys are replaced like React state, so data keys can be removed
+    control.setState((current) => ({ ...current, ...rest }));
+  }
+  if (collapsed !== undefined && collapsed !== control.getState().collapsed) {
+    if (collapsed) {
+      control.collapse();
+    } else {
+      control.expand();
+    }
+  }
+}
+
 /**
  * Custom hook for managing plugin state in React applications.
  *
- * This hook provides a simple way to track and update the state
- * of a PluginControl from React components.
+ * Pass a control to bind the hook to it: the state is read from the control
+ * and the setters write back through the control, so both stay in sync.
+ * Without a control (or with `null`, e.g. before the control is created)
+ * the hook keeps its own local state.
  *
  * @example
  * ```tsx
@@ -34,51 +94,109 @@ const DEFAULT_STATE: PluginState = {
  *     </div>
  *   );
  * }
+ *
+ * // Inside PluginControlReact children
+ * function OpacitySlider() {
+ *   const { state, setData } = usePluginState(usePluginControl());
+ *   // ...
+ * }
  * ```
  *
- * @param initialState - Optional initial state values
+ * @typeParam TData - Shape of `state.data`
+ * @param source - A control to bind to, or optional initial state values for local state
  * @returns Object containing state and update functions
  */
-export function usePluginState(initialState?: Partial<PluginState>) {
-  const [state, setState] = useState<PluginState>({
-    ...DEFAULT_STATE,
+export function usePluginState<TData extends PluginStateData = PluginStateData>(
+  source?: PluginControl<TData> | Partial<PluginState<TData>> | null
+) {
+  const control = source instanceof PluginControl ? source : null;
+  const initialState = source instanceof PluginControl ? undefined : (source ?? undefined);
+
+  const [localState, setLocalState] = useState<PluginState<TData>>({
+    ...(DEFAULT_STATE as PluginState<TData>),
     ...initialState,
   });
 
+  const store = useMemo(() => createStateStore(control), [control]);
+  const controlState = useSyncExternalStore(store.subscribe, store.getSnapshot, store.getSnapshot);
+  const state = controlState ?? localState;
+
+  /**
+   * Merges a partial state computed from the previous state
+   */
+  const update = useCallback(
+    (updater: (prev: PluginState<TData>) => Partial<PluginState<TData>>) => {
+      if (control) {
+        writeState(control, updater(control.getState()));
+      } else {
+        setLocalState((prev) => ({ ...prev, ...updater(prev) }));
+      }
+    },
+    [control]
+  );
+
+  /**
+   * Replaces the state
+   */
+  const setState: Dispatch<SetStateAction<PluginState<TData>>> = useCallback(
+    (action) => {
+      if (control) {
+        writeState(control, typeof action === 'function' ? action(control.getState()) : action);
+      } else {
+        setLocalState(action);
+      }
+    },
+    [control]
+  );
+
   /**
    * Sets the collapsed state
    */
-  const setCollapsed = useCallback((collapsed: boolean) => {
-    setState((prev) => ({ ...prev, collapsed }));
-  }, []);
+  const setCollapsed = useCallback(
+    (collapsed: boolean) => {
+      update(() => ({ collapsed }));
+    },
+    [update]
+  );
 
   /**
    * Sets the panel width
    */
-  const setPanelWidth = useCallback((panelWidth: number) => {
-    setState((prev) => ({ ...prev, panelWidth }));
-  }, []);
+  const setPanelWidth = useCallback(
+    (panelWidth: number) => {
+      update(() => ({ panelWidth }));
+    },
+    [update]
+  );
 
   /**
    * Sets custom data in the state
    */
-  const setData = useCallback((data: Record<string, unknown>) => {
-    setState((prev) => ({ ...prev, data: { ...prev.data, ...data } }));
-  }, []);
+  const setData = useCallback(
+    (data: Partial<TData>) => {
+      update((prev) => ({ data: { ...prev.data, ...data } as TData }));
+    },
+    [update]
+  );
 
   /**
-   * Resets the state to default values
+   * Resets the state to its initial values; for a control, the state it had
+   * when the hook was bound to it
    */
   const reset = useCallback(() => {
-    setState({ ...DEFAULT_STATE, ...initialState });
-  }, [initialState]);
+    if (control && store.initialState) {
+      writeState(control, store.initialState);
+    } else {
+      setLocalState({ ...(DEFAULT_STATE as PluginState<TData>), ...initialState });
+    }
+  }, [control, store, initialState]);
 
   /**
    * Toggles the collapsed state
    */
   const toggle = useCallback(() => {
-    setState((prev) => ({ ...prev, collapsed: !prev.collapsed }));
-  }, []);
+    update((prev) => ({ collapsed: !prev.collapsed }));
+  }, [update]);
 
   return {
     state,
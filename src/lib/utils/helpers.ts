@@ -132,3 +132,225 @@ export function classNames(classes: Record<string, boolean>): string {
     .map(([key]) => key)
     .join(' ');
 }
+
+/**
+ * Checks whether a keyboard event matches a shortcut string.
+ *
+ * Shortcuts are written as modifier names followed by a key, joined with `+`.
+ * Supported modifiers are `Ctrl`, `Alt`, `Shift` and `Meta` (`Mod` matches
+ * `Meta` on macOS and `Ctrl` elsewhere). Keys are compared case-insensitively.
+ *
+ * @param event - The keyboard event
+ * @param shortcut - The shortcut, e.g. `'Alt+P'` or `'Mod+Shift+K'`
+ * @returns Whether the event matches the shortcut
+ *
+ * @example
+ * ```typescript
+ * matchesShortcut(event, 'Alt+P'); // true for Alt+P only
+ * matchesShortcut(event, '?');     // true for "?" without Ctrl/Alt/Meta
+ * ```
+ */
+export function matchesShortcut(event: KeyboardEvent, shortcut: string): boolean {
+  const parts = shortcut.split('+').map((part) => part.trim().toLowerCase());
+  // "Ctrl++" splits into [..., '', ''] - the last empty part stands for "+"
+  const key = parts.pop() || '+';
+  const modifiers = new Set(parts.filter(Boolean));
+
+  if (modifiers.has('mod')) {
+    const isMac = typeof navigator !== 'undefined' && /mac|iphone|ipad/i.test(navigator.platform);
+    modifiers.delete('mod');
+    modifiers.add(isMac ? 'meta' : 'ctrl');
+  }
+
+  if (event.ctrlKey !== modifiers.has('ctrl')) return false;
+  if (event.altKey !== modifiers.has('alt')) return false;
+  if (event.metaKey !== modifiers.has('meta')) return false;
+  // Shift is only checked when given, so that shifted characters like "?" match
+  if (modifiers.has('shift') && !event.shiftKey) return false;
+
+  const eventKey = event.key.toLowerCase();
+  if (eventKey === key) return true;
+
+  // With Alt (macOS) or Shift the produced character differs; fall back to the physical key
+  const code = event.code.toLowerCase();
+  return code === `key${key}` || code === `digit${key}`;
+}
+
+/**
+ * Checks whether a value is a plain object (created by `{}`, `Object.create(null)` or JSON).
+ *
+ * @param value - The value to check
+ * @returns True for plain objects, false for arrays, class instances and primitives
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object') return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Compares two values structurally. Plain objects and arrays are compared
+ * recursively; everything else with `Object.is`.
+ *
+ * @param a - The first value
+ * @param b - The second value
+ * @returns True if the values are equal
+ *
+ * @example
+ * ```typescript
+ * isDeepEqual({ a: [1, 2] }, { a: [1, 2] }); // true
+ * isDeepEqual({ a: 1 }, { a: 1, b: undefined }); // false
+ * ```
+ */
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isDeepEqual(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => key in b && isDeepEqual(a[key], b[key]))
+    );
+  }
+  return false;
+}
+
+/**
+ * Deep-merges a patch into a value without modifying either. Plain objects are
+ * merged recursively; arrays and other values replace the current value.
+ * Unchanged branches keep their identity, and the original value is returned
+ * when the patch changes nothing.
+ *
+ * @param target - The current value
+ * @param patch - The values to merge in
+ * @returns The merged value
+ *
+ * @example
+ * ```typescript
+ * const state = { filters: { year: 2020, tags: ['a'] }, view: { zoom: 3 } };
+ * const next = deepMerge(state, { filters: { year: 2021 } });
+ * next.view === state.view; // true
+ * deepMerge(state, { view: { zoom: 3 } }) === state; // true
+ * ```
+ */
+export function deepMerge<T>(target: T, patch: unknown): T {
+  if (!isPlainObject(target) || !isPlainObject(patch)) {
+    return (isDeepEqual(target, patch) ? target : patch) as T;
+  }
+
+  let result: Record<string, unknown> | null = null;
+  for (const key of Object.keys(patch)) {
+    const current = target[key];
+    const next = deepMerge(current, patch[key]);
+    if (!Object.is(current, next) || !(key in target)) {
+      result ??= { ...target };
+      result[key] = next;
+    }
+  }
+  return (result ?? target) as T;
+}
+
+/**
+ * Freezes plain objects and arrays recursively. Already frozen branches and
+ * other objects (class instances, DOM elements, ...) are left as they are.
+ *
+ * @param value - The value to freeze
+ * @returns The same value
+ */
+export function deepFreeze<T>(value: T): T {
+  if ((Array.isArray(value) || isPlainObject(value)) && !Object.isFrozen(value)) {
+    Object.freeze(value);
+    for (const item of Object.values(value)) {
+      deepFreeze(item);
+    }
+  }
+  return value;
+}
+
+/**
+ * Returns a deeply frozen version of a value. Plain objects and arrays that
+ * are not frozen yet are copied before freezing, so objects owned by the
+ * caller stay mutable; frozen branches and other objects are kept as they are.
+ *
+ * @param value - The value to freeze
+ * @returns The value itself if it needed no change, otherwise a frozen copy
+ *
+ * @example
+ * ```typescript
+ * const tags = ['a'];
+ * const state = freezeCopy({ tags });
+ * state.tags === tags; // false
+ * tags.push('b'); // still allowed
+ * ```
+ */
+export function freezeCopy<T>(value: T): T {
+  // Primitives count as frozen
+  if (Object.isFrozen(value)) return value;
+  if (Array.isArray(value)) {
+    return Object.freeze(value.map((item) => freezeCopy(item))) as T;
+  }
+  if (isPlainObject(value)) {
+    const copy: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = freezeCopy(item);
+    }
+    return Object.freeze(copy) as T;
+  }
+  return value;
+}
+
+/**
+ * Reads a nested value by a dot-separated path.
+ *
+ * @param value - The value to read from
+ * @param path - The path, e.g. `'data.filters.year'`. An empty path returns the value itself.
+ * @returns The value at the path, or undefined if any part is missing
+ *
+ * @example
+ * ```typescript
+ * getValueAtPath({ data: { tags: ['a', 'b'] } }, 'data.tags.1'); // "b"
+ * ```
+ */
+export function getValueAtPath(value: unknown, path: string): unknown {
+  if (!path) return value;
+  return path
+    .split('.')
+    .reduce<unknown>(
+      (current, key) =>
+        current !== null && typeof current === 'object'
+          ? (current as Record<string, unknown>)[key]
+          : undefined,
+      value
+    );
+}
+
+/**
+ * Calls every handler with the same payload. A handler that throws does not
+ * stop the others; its error is passed to `onError` instead.
+ *
+ * @param handlers - The handlers to call. They are copied first, so handlers
+ *   may remove themselves while being called.
+ * @param payload - The value passed to every handler
+ * @param onError - Called with each thrown error
+ *
+ * @example
+ * ```typescript
+ * callHandlers(listeners, event, (error) => console.error('listener threw', error));
+ * ```
+ */
+export function callHandlers<T>(
+  handlers: Iterable<(payload: T) => void>,
+  payload: T,
+  onError: (error: unknown) => void
+): void {
+  for (const handler of [...handlers]) {
+    try {
+      handler(payload);
+    } catch (error) {
+      onError(error);
+    }
+  }
+}
@@ -5,4 +5,12 @@ export {
   debounce,
   throttle,
   classNames,
+  matchesShortcut,
+  isPlainObject,
+  isDeepEqual,
+  deepMerge,
+  deepFreeze,
+  freezeCopy,
+  getValueAtPath,
+  callHandlers,
 } from './helpers';
@@ -4,11 +4,71 @@ export { PluginControlReact } from './lib/core/PluginControlReact';
 // React hooks
 export { usePluginState } from './lib/hooks';
 
+// React context
+export {
+  MapContext,
+  MapProvider,
+  useMap,
+  PluginControlContext,
+  PluginControlProvider,
+  usePluginControl,
+} from './lib/context';
+
 // Re-export types for React consumers
 export type {
   PluginControlOptions,
+  PluginControlContent,
+  PluginControlTheme,
+  PluginControlBadge,
+  PluginControlPanelMode,
+  PluginControlPosition,
+  PluginControlSheetSnap,
+  PluginControlMapHandler,
+  PluginControlModeOptions,
+  PluginControlModeExitReason,
+  PluginControlMessages,
+  PluginControlContentRenderer,
+  PluginControlField,
+  PluginControlFieldValidator,
+  PluginControlNumericField,
+  PluginControlSelectField,
+  PluginControlCheckboxField,
+  PluginControlColorField,
+  PluginControlTextField,
+  LayerManagerOptions,
+  FeatureInspectorOptions,
+  ManagedImage,
+  ManagedImageOptions,
+  PluginControlPersistOptions,
+  PluginControlHistoryOptions,
+  PluginControlScheduler,
+  PluginStateStorage,
+  PluginStateStorageType,
+  PersistedPluginState,
   PluginState,
-  PluginControlReactProps,
+  PluginStateData,
+  PluginStateUpdate,
+  PluginStateUpdater,
+  PluginStatePathListener,
+  DeepPartial,
+  PluginControlGroupOptions,
+  PluginControlGroupEvent,
+  PluginControlGroupEventHandler,
   PluginControlEvent,
+  PluginControlEventBase,
+  PluginControlEventMap,
+  PluginControlStateChangeEventData,
+  PluginControlFieldChangeEventData,
+  PluginControlHistoryChangeEventData,
+  PluginControlModeEnterEventData,
+  PluginControlModeExitEventData,
+  PluginControlFeatureSelectEventData,
+  PluginControlErrorEventData,
+  PluginControlEventData,
   PluginControlEventHandler,
 } from './lib/core/types';
+export type {
+  PluginControlReactProps,
+  MapProviderProps,
+  PluginControlProviderProps,
+} from './lib/core/reactTypes';
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { MapGeoJSONFeature } from 'maplibre-gl';
+import { FeatureInspector } from '../src/lib/core/FeatureInspector';
+import { PluginControl } from '../src/lib/core/PluginControl';
+import { createMockMap } from './mockMap';
+
+/**
+ * Creates a feature as returned by `queryRenderedFeatures`.
+ */
+function createFeature(
+  layer: string,
+  id: number | undefined,
+  properties: Record<string, unknown>
+): MapGeoJSONFeature {
+  const feature = {
+    type: 'Feature',
+    id,
+    properties,
+    geometry: { type: 'Point', coordinates: [0, 0] },
+    layer: { id: layer },
+    source: 'points',
+    sourceLayer: undefined,
+    toJSON: () => ({ type: 'Feature', id, properties, geometry: feature.geometry }),
+  };
+  return feature as unknown as MapGeoJSONFeature;
+}
+
+/**
+ * Creates a mock map that returns the given features for every query.
+ */
+function createInspectableMap(features: MapGeoJSONFeature[] = []) {
+  return createMockMap((map) => ({
+    getLayer: (id: string) => (id === 'missing' ? undefined : { id }),
+    getSource: () => ({}),
+    queryRenderedFeatures: vi.fn(() => features),
+    setFeatureState: vi.fn(),
+    removeFeatureState: vi.fn(),
+    click: (x: number, y: number) => map.fire('click', { type: 'click', point: { x, y } }),
+  }));
+}
+
+const FEATURES = [
+  createFeature('parcels', 1, { name: 'North', tags: ['a', 'b'] }),
+  createFeature('parcels', 1, { name: 'North', tags: ['a', 'b'] }),
+  createFeature('roads', 7, { name: 'Main Street', lanes: 2 }),
+];
+
+describe('FeatureInspector', () => {
+  it('queries around the point with the configured layers and tolerance', () => {
+    const map = createInspectableMap();
+    const inspector = new FeatureInspector(map, {
+      layers: ['parcels', 'missing'],
+      tolerance: 5,
+    });
+
+    expect(inspector.getElement().textContent).toBe('Click a feature on the map to inspect it.');
+    inspector.inspectAt({ x: 10, y: 20 } as never);
+
+    expect(map.queryRenderedFeatures).toHaveBeenCalledWith(
+      [
+        [5, 15],
+        [15, 25],
+      ],
+      { layers: ['parcels'] }
+    );
+    expect(inspector.getElement().textContent).toBe('No features here.');
+  });
+
+  it('renders a property table, pages through features and moves the highlight', () => {
+    const map = createInspectableMap(FEATURES);
+    const onChange = vi.fn();
+    const inspector = new FeatureInspector(map, {}, undefined, onChange);
+    const element = inspector.getElement();
+
+    // Duplicates from tile boundaries are dropped
+    expect(inspector.inspectAt([0, 0])).toHaveLength(2);
+    expect(element.querySelector('.plugin-control-inspector-page')?.textContent).toBe('1 of 2');
+    const cells = [...element.querySelectorAll('tr')].map((row) => row.textContent);
+    expect(cells).toEqual(['nameNorth', 'tags["a","b"]']);
+    expect(map.setFeatureState).toHaveBeenCalledWith(
+      { source: 'points', sourceLayer: undefined, id: 1 },
+      { selected: true }
+    );
+
+    element.querySelector<HTMLButtonElement>('[aria-label="Next feature"]')!.click();
+
+    expect(inspector.getSelectedFeature()).toBe(FEATURES[2]);
+    expect(element.querySelector('.plugin-control-inspector-layer')?.textContent).toBe('roads');
+    expect(map.removeFeatureState).toHaveBeenCalledWith(
+      { source: 'points', sourceLayer: undefined, id: 1 },
+      'selected'
+    );
+    expect(element.querySelector<HTMLButtonElement>('[aria-label="Next feature"]')!.disabled).toBe(
+      true
+    );
+    expect(onChange).toHaveBeenLastCalledWith(FEATURES[2], [FEATURES[0], FEATURES[2]]);
+
+    inspector.destroy();
+    expect(map.removeFeatureState).toHaveBeenCalledTimes(2);
+  });
+
+  it('copies the shown feature as GeoJSON', async () => {
+    const writeText = vi.fn<(text: string) => Promise<void>>(() => Promise.resolve());
+    Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true });
+    const inspector = new FeatureInspector(createInspectableMap(FEATURES), {
+      highlightState: null,
+    });
+    inspector.inspectAt([0, 0]);
+
+    const copy = inspector.getElement().querySelector<HTMLButtonElement>(
+      '.plugin-control-inspector-copy'
+    )!;
+    copy.click();
+    await Promise.resolve();
+
+    expect(JSON.parse(writeText.mock.calls[0][0])).toEqual({
+      type: 'Feature',
+      id: 1,
+      properties: { name: 'North', tags: ['a', 'b'] },
+      geometry: { type: 'Point', coordinates: [0, 0] },
+    });
+    expect(copy.textContent).toBe('Copied');
+    inspector.destroy();
+  });
+});
+
+describe('PluginControl inspector', () => {
+  it('inspects map clicks while the panel is open', () => {
+    const map = createInspectableMap(FEATURES);
+    const control = new PluginControl({ inspector: true });
+    control.onAdd(map);
+    const onSelect = vi.fn();
+    control.on('featureselect', onSelect);
+
+    expect(control.getActiveMode()).toBeNull();
+
+    control.toggle();
+    expect(control.getActiveMode()).toBe('inspect');
+
+    map.click(4, 8);
+    expect(onSelect).toHaveBeenCalledWith(
+      expect.objectContaining({ feature: FEATURES[0], features: [FEATURES[0], FEATURES[2]] })
+    );
+    expect(control.getInspectedFeature()).toBe(FEATURES[0]);
+
+    control.toggle();
+    expect(control.getActiveMode()).toBeNull();
+
+    control.setInspector(false);
+    expect(control.getInspectedFeature()).toBeNull();
+  });
+});
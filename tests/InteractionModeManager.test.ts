@@ -0,0 +1,133 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { MapMouseEvent } from 'maplibre-gl';
+import { InteractionModeManager } from '../src/lib/core/InteractionModeManager';
+import { PluginControl } from '../src/lib/core/PluginControl';
+import { createMockMap } from './mockMap';
+
+/**
+ * Creates a mock handler such as `map.dragPan`.
+ */
+function createHandler(enabled = true) {
+  return {
+    isEnabled: () => enabled,
+    enable: vi.fn(() => {
+      enabled = true;
+    }),
+    disable: vi.fn(() => {
+      enabled = false;
+    }),
+  };
+}
+
+/**
+ * Creates a mock map with interaction handlers and click events.
+ */
+function createInteractiveMap() {
+  return createMockMap((map) => ({
+    dragPan: createHandler(),
+    doubleClickZoom: createHandler(),
+    boxZoom: createHandler(false),
+    click: () => map.fire('click', { type: 'click' }),
+  }));
+}
+
+const pressEscape = () =>
+  document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape', bubbles: true }));
+
+describe('InteractionModeManager', () => {
+  it('is shared per map', () => {
+    const map = createInteractiveMap();
+    expect(InteractionModeManager.forMap(map)).toBe(InteractionModeManager.forMap(map));
+    expect(InteractionModeManager.forMap(map)).not.toBe(
+      InteractionModeManager.forMap(createInteractiveMap())
+    );
+  });
+
+  it('sets the cursor and disables handlers until the mode ends', () => {
+    const map = createInteractiveMap();
+    map.getCanvas().style.cursor = 'grab';
+    const manager = new InteractionModeManager(map);
+
+    manager.activate({
+      name: 'draw',
+      owner: 'a',
+      options: { cursor: 'cell', disableHandlers: ['dragPan', 'boxZoom'] },
+    });
+    expect(map.getCanvas().style.cursor).toBe('cell');
+    expect(map.dragPan.disable).toHaveBeenCalled();
+    expect(map.boxZoom.disable).not.toHaveBeenCalled();
+
+    manager.deactivate();
+    expect(map.getCanvas().style.cursor).toBe('grab');
+    expect(map.dragPan.enable).toHaveBeenCalled();
+    // Handlers that were already disabled stay disabled
+    expect(map.boxZoom.enable).not.toHaveBeenCalled();
+  });
+
+  it('routes clicks to the active mode only and ends it on Escape', () => {
+    const map = createInteractiveMap();
+    const manager = new InteractionModeManager(map);
+    const first = { onClick: vi.fn(), onExit: vi.fn() };
+    const second = { onClick: vi.fn(), onExit: vi.fn() };
+
+    manager.activate({ name: 'pick', owner: 'a', options: first, onExit: first.onExit });
+    manager.activate({ name: 'pick', owner: 'b', options: second, onExit: second.onExit });
+    map.click();
+
+    expect(first.onExit).toHaveBeenCalledWith('replaced');
+    expect(first.onClick).not.toHaveBeenCalled();
+    expect(second.onClick).toHaveBeenCalledTimes(1);
+
+    manager.deactivate('a');
+    expect(manager.getActiveMode()).toBe('pick');
+
+    pressEscape();
+    expect(second.onExit).toHaveBeenCalledWith('escape');
+    expect(manager.getActiveMode()).toBeNull();
+  });
+});
+
+describe('PluginControl interaction modes', () => {
+  it('emits modeenter and modeexit and ends the other control mode', () => {
+    const map = createInteractiveMap();
+    const first = new PluginControl();
+    const second = new PluginControl();
+    first.onAdd(map);
+    second.onAdd(map);
+    const onExit = vi.fn();
+    const onEnter = vi.fn();
+    first.on('modeexit', onExit);
+    second.on('modeenter', onEnter);
+
+    first.activateMode('pick');
+    second.activateMode('measure');
+
+    expect(onExit).toHaveBeenCalledWith(
+      expect.objectContaining({ mode: 'pick', reason: 'replaced' })
+    );
+    expect(onEnter).toHaveBeenCalledWith(expect.objectContaining({ mode: 'measure' }));
+    expect(first.getActiveMode()).toBeNull();
+    expect(second.getActiveMode()).toBe('measure');
+
+    second.onRemove();
+    expect(InteractionModeManager.forMap(map).getActiveMode()).toBeNull();
+  });
+
+  it('keeps the panel open for map clicks during a mode', () => {
+    const map = createInteractiveMap();
+    const control = new PluginControl({ collapsed: false });
+    control.onAdd(map);
+    const onClick = vi.fn<(e: MapMouseEvent) => void>();
+    control.activateMode('pick', { onClick });
+
+    map.getCanvas().dispatchEvent(new MouseEvent('click', { bubbles: true }));
+    map.click();
+
+    expect(control.getState().collapsed).toBe(false);
+    expect(onClick).toHaveBeenCalledTimes(1);
+  });
+
+  it('does nothing before the control is added to a map', () => {
+    expect(new PluginControl().activateMode('pick')).toBe(false);
+  });
+});
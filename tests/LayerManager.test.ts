@@ -0,0 +1,125 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { LayerSpecification } from 'maplibre-gl';
+import { LayerManager, getLayerOpacityProperties } from '../src/lib/core/LayerManager';
+import { createMockMap } from './mockMap';
+
+/**
+ * Creates a mock map backed by an in-memory layer list.
+ */
+function createLayeredMap(layers: LayerSpecification[]) {
+  const layout: Record<string, Record<string, unknown>> = {};
+  const paint: Record<string, Record<string, unknown>> = {};
+
+  return createMockMap((map) => ({
+    getLayersOrder: () => layers.map((layer) => layer.id),
+    getLayer: (id: string) => {
+      const layer = layers.find((l) => l.id === id);
+      return layer && { ...layer, serialize: () => layer };
+    },
+    getLayoutProperty: (id: string, name: string) => layout[id]?.[name],
+    setLayoutProperty: vi.fn((id: string, name: string, value: unknown) => {
+      (layout[id] ??= {})[name] = value;
+      map.fire('styledata');
+    }),
+    getPaintProperty: (id: string, name: string) => paint[id]?.[name],
+    setPaintProperty: vi.fn((id: string, name: string, value: unknown) => {
+      (paint[id] ??= {})[name] = value;
+    }),
+    moveLayer: vi.fn((id: string, beforeId?: string) => {
+      const layer = layers.splice(
+        layers.findIndex((l) => l.id === id),
+        1
+      )[0];
+      const index = beforeId ? layers.findIndex((l) => l.id === beforeId) : layers.length;
+      layers.splice(index, 0, layer);
+      map.fire('styledata');
+    }),
+  }));
+}
+
+const LAYERS: LayerSpecification[] = [
+  { id: 'background', type: 'background' },
+  { id: 'water', type: 'fill', source: 'osm' },
+  { id: 'roads', type: 'line', source: 'osm' },
+  { id: 'labels', type: 'symbol', source: 'labels' },
+];
+
+function layerIds(manager: LayerManager): string[] {
+  return Array.from(manager.getElement().querySelectorAll<HTMLElement>('[data-layer-id]')).map(
+    (row) => row.dataset.layerId!
+  );
+}
+
+describe('getLayerOpacityProperties', () => {
+  it('returns the opacity paint properties for a layer type', () => {
+    expect(getLayerOpacityProperties('fill')).toEqual(['fill-opacity']);
+    expect(getLayerOpacityProperties('symbol')).toEqual(['icon-opacity', 'text-opacity']);
+    expect(getLayerOpacityProperties('hillshade')).toEqual([]);
+  });
+});
+
+describe('LayerManager', () => {
+  it('lists layers top-most first and applies filters', () => {
+    const map = createLayeredMap([...LAYERS]);
+    expect(layerIds(new LayerManager(map))).toEqual(['labels', 'roads', 'water', 'background']);
+    expect(layerIds(new LayerManager(map, { source: 'osm' }))).toEqual(['roads', 'water']);
+    expect(layerIds(new LayerManager(map, { idPattern: /^wat/ }))).toEqual(['water']);
+    expect(layerIds(new LayerManager(map, { filter: (layer) => layer.type === 'line' }))).toEqual([
+      'roads',
+    ]);
+  });
+
+  it('matches every layer with a global idPattern', () => {
+    const map = createLayeredMap([...LAYERS]);
+    expect(layerIds(new LayerManager(map, { idPattern: /a/g }))).toEqual([
+      'labels',
+      'roads',
+      'water',
+      'background',
+    ]);
+  });
+
+  it('toggles visibility and sets every opacity property', () => {
+    const map = createLayeredMap([...LAYERS]);
+    const manager = new LayerManager(map);
+    const row = manager.getElement().querySelector('[data-layer-id="labels"]')!;
+
+    const checkbox = row.querySelector<HTMLInputElement>('.plugin-control-layer-visibility')!;
+    expect(checkbox.checked).toBe(true);
+    checkbox.checked = false;
+    checkbox.dispatchEvent(new Event('change'));
+    expect(map.setLayoutProperty).toHaveBeenCalledWith('labels', 'visibility', 'none');
+
+    const slider = row.querySelector<HTMLInputElement>('.plugin-control-layer-opacity')!;
+    slider.value = '0.5';
+    slider.dispatchEvent(new Event('input'));
+    expect(map.setPaintProperty).toHaveBeenCalledWith('labels', 'icon-opacity', 0.5);
+    expect(map.setPaintProperty).toHaveBeenCalledWith('labels', 'text-opacity', 0.5);
+  });
+
+  it('re-renders when layers are added', () => {
+    const layers = [...LAYERS];
+    const map = createLayeredMap(layers);
+    const manager = new LayerManager(map);
+
+    layers.push({ id: 'points', type: 'circle', source: 'osm' });
+    map.fire('styledata');
+    expect(layerIds(manager)[0]).toBe('points');
+  });
+
+  it('moves layers when rows are dropped', () => {
+    const map = createLayeredMap([...LAYERS]);
+    const manager = new LayerManager(map);
+    const rows = manager.getElement().querySelectorAll<HTMLElement>('[data-layer-id]');
+    const [labels, , water] = Array.from(rows);
+
+    // Drag "water" above "labels"
+    water.dispatchEvent(new Event('dragstart'));
+    labels.classList.add('drop-before');
+    labels.dispatchEvent(new Event('drop'));
+    water.dispatchEvent(new Event('dragend'));
+
+    expect(map.moveLayer).toHaveBeenCalledWith('water', undefined);
+    expect(layerIds(manager)).toEqual(['water', 'labels', 'roads', 'background']);
+  });
+});
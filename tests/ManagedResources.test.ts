@@ -0,0 +1,175 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { AddLayerObject, SourceSpecification } from 'maplibre-gl';
+import { ManagedResources } from '../src/lib/core/ManagedResources';
+import { PluginControl } from '../src/lib/core/PluginControl';
+import { createMockMap } from './mockMap';
+
+/**
+ * Creates a mock map with an in-memory style that can be swapped.
+ */
+function createStyledMap(baseLayers: string[] = []) {
+  let loaded = true;
+  let layers: AddLayerObject[] = [];
+  const sources = new Set<string>();
+  const images = new Set<string>();
+
+  const setBaseLayers = (ids: string[]) => {
+    layers = ids.map((id) => ({ id, type: 'background' }) as AddLayerObject);
+  };
+  setBaseLayers(baseLayers);
+
+  return createMockMap((map) => ({
+    getStyle: () => (loaded ? { layers } : undefined),
+    getLayer: (id: string) => layers.find((layer) => layer.id === id),
+    getLayersOrder: () => layers.map((layer) => layer.id),
+    addLayer: vi.fn((layer: AddLayerObject, beforeId?: string) => {
+      const index = beforeId ? layers.findIndex((l) => l.id === beforeId) : layers.length;
+      layers.splice(index, 0, layer);
+      map.fire('styledata');
+    }),
+    removeLayer: vi.fn((id: string) => {
+      layers = layers.filter((layer) => layer.id !== id);
+      map.fire('styledata');
+    }),
+    getSource: (id: string) => (sources.has(id) ? {} : undefined),
+    addSource: vi.fn((id: string) => {
+      sources.add(id);
+      map.fire('styledata');
+    }),
+    removeSource: vi.fn((id: string) => sources.delete(id)),
+    hasImage: (id: string) => images.has(id),
+    addImage: vi.fn((id: string) => images.add(id)),
+    removeImage: vi.fn((id: string) => images.delete(id)),
+    /** Replaces the style; the new style loads when `finishLoading` is called */
+    setStyle: (ids: string[]) => {
+      loaded = false;
+      setBaseLayers(ids);
+      sources.clear();
+      images.clear();
+    },
+    finishLoading: () => {
+      loaded = true;
+      map.fire('styledata');
+    },
+    layerIds: () => layers.map((layer) => layer.id),
+  }));
+}
+
+const POINTS: SourceSpecification = {
+  type: 'geojson',
+  data: { type: 'FeatureCollection', features: [] },
+};
+
+describe('ManagedResources', () => {
+  it('adds registered items when attached and re-adds them after a style change', () => {
+    const map = createStyledMap(['background', 'labels']);
+    const resources = new ManagedResources();
+    resources.addImage('pin', { width: 1, height: 1, data: new Uint8Array(4) });
+    resources.addSource('points', POINTS);
+    resources.addLayer({ id: 'points-fill', type: 'circle', source: 'points' }, 'labels');
+    resources.addLayer({ id: 'points-label', type: 'symbol', source: 'points' });
+    resources.attach(map);
+
+    expect(map.layerIds()).toEqual(['background', 'points-fill', 'labels', 'points-label']);
+
+    map.setStyle(['satellite', 'labels']);
+    map.finishLoading();
+
+    expect(map.layerIds()).toEqual(['satellite', 'points-fill', 'labels', 'points-label']);
+    expect(map.hasImage('pin')).toBe(true);
+    expect(map.getSource('points')).toBeDefined();
+  });
+
+  it('waits for a loading style and falls back to the top for a missing beforeId', () => {
+    const map = createStyledMap(['labels']);
+    const resources = new ManagedResources();
+    resources.attach(map);
+    map.setStyle(['background']);
+
+    resources.addSource('points', POINTS);
+    resources.addLayer({ id: 'points', type: 'circle', source: 'points' }, 'labels');
+    expect(map.addLayer).not.toHaveBeenCalled();
+
+    map.finishLoading();
+    expect(map.layerIds()).toEqual(['background', 'points']);
+  });
+
+  it('keeps the registration order when only some layers were removed', () => {
+    const map = createStyledMap();
+    const resources = new ManagedResources();
+    resources.attach(map);
+    resources.addSource('points', POINTS);
+    resources.addLayer({ id: 'a', type: 'circle', source: 'points' });
+    resources.addLayer({ id: 'b', type: 'circle', source: 'points' });
+
+    map.removeLayer('a');
+
+    expect(map.layerIds()).toEqual(['a', 'b']);
+  });
+
+  it('removes a source together with its layers', () => {
+    const map = createStyledMap();
+    const resources = new ManagedResources();
+    resources.attach(map);
+    resources.addSource('points', POINTS);
+    resources.addLayer({ id: 'points', type: 'circle', source: 'points' });
+
+    resources.removeSource('points');
+
+    expect(map.layerIds()).toEqual([]);
+    expect(map.getSource('points')).toBeUndefined();
+    expect(resources.getLayerIds()).toEqual([]);
+  });
+
+  it('replaces an existing layer with the same id when a layer is added', () => {
+    const map = createStyledMap();
+    const resources = new ManagedResources();
+    resources.attach(map);
+    resources.addSource('points', POINTS);
+    resources.addLayer({ id: 'points', type: 'circle', source: 'points' });
+
+    resources.addLayer({ id: 'points', type: 'heatmap', source: 'points' });
+
+    expect(map.layerIds()).toEqual(['points']);
+    expect(map.getLayer('points')?.type).toBe('heatmap');
+  });
+
+  it('keeps a source on the map while unmanaged layers use it', () => {
+    const map = createStyledMap();
+    const resources = new ManagedResources();
+    resources.attach(map);
+    resources.addSource('points', POINTS);
+    map.addLayer({ id: 'other', type: 'circle', source: 'points' });
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(() => resources.removeSource('points')).not.toThrow();
+
+    expect(map.removeSource).not.toHaveBeenCalled();
+    expect(resources.getSourceIds()).toEqual([]);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe('PluginControl managed resources', () => {
+  it('adds managed items on add, removes them on remove and restores them on re-add', () => {
+    const map = createStyledMap();
+    const control = new PluginControl();
+    control.addManagedSource('points', POINTS);
+    control.addManagedLayer({ id: 'points', type: 'circle', source: 'points' });
+
+    control.onAdd(map);
+    expect(map.layerIds()).toEqual(['points']);
+
+    control.onRemove();
+    expect(map.layerIds()).toEqual([]);
+    expect(map.getSource('points')).toBeUndefined();
+
+    map.finishLoading();
+    expect(map.layerIds()).toEqual([]);
+
+    control.onAdd(map);
+    expect(control.getManagedLayerIds()).toEqual(['points']);
+    expect(map.layerIds()).toEqual(['points']);
+  });
+});
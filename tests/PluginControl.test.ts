@@ -0,0 +1,986 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PluginControl } from '../src/lib/core/PluginControl';
+import type {
+  PluginControlEventBase,
+  PluginControlEventMap,
+  PluginStateData,
+} from '../src/lib/core/types';
+import { createMockMap } from './mockMap';
+
+describe('PluginControl content', () => {
+  it('shows a placeholder when no content is provided', () => {
+    const control = new PluginControl();
+    control.onAdd(createMockMap());
+    expect(control.getContentElement()?.querySelector('.plugin-control-placeholder')).not.toBeNull();
+  });
+
+  it('renders an HTML string', () => {
+    const control = new PluginControl({ content: '<b class="custom">Hi</b>' });
+    control.onAdd(createMockMap());
+    expect(control.getContentElement()?.querySelector('.custom')?.textContent).toBe('Hi');
+  });
+
+  it('renders an element and replaces it via setContent', () => {
+    const first = document.createElement('div');
+    const second = document.createElement('span');
+    const control = new PluginControl({ content: first });
+    control.onAdd(createMockMap());
+    expect(control.getContentElement()?.firstChild).toBe(first);
+
+    control.setContent(second);
+    expect(control.getContentElement()?.firstChild).toBe(second);
+  });
+
+  it('re-invokes a render callback on state changes', () => {
+    const render = vi.fn((_control, _map, state) => `<span>${String(state.data?.count)}</span>`);
+    const control = new PluginControl({ content: render, scheduler: 'sync' });
+    const map = createMockMap();
+    control.onAdd(map);
+    expect(render).toHaveBeenCalledWith(control, map, expect.objectContaining({ collapsed: true }));
+
+    control.setState({ data: { count: 2 } });
+    expect(control.getContentElement()?.textContent).toBe('2');
+  });
+
+  it('clears content and stops rendering after removal', () => {
+    const render = vi.fn(() => '<span>content</span>');
+    const control = new PluginControl({ content: render });
+    control.onAdd(createMockMap());
+    const content = control.getContentElement()!;
+
+    control.onRemove();
+    expect(content.childNodes.length).toBe(0);
+
+    render.mockClear();
+    control.setState({ data: {} });
+    expect(render).not.toHaveBeenCalled();
+  });
+});
+
+describe('PluginControl fields', () => {
+  it('initializes state data from field defaults', () => {
+    const control = new PluginControl({
+      fields: [
+        { type: 'range', key: 'opacity', min: 0, max: 1, step: 0.05, defaultValue: 0.8 },
+        { type: 'checkbox', key: 'visible' },
+        { type: 'select', key: 'mode', options: ['a', 'b'] },
+      ],
+    });
+    expect(control.getState().data).toEqual({ opacity: 0.8, visible: false, mode: 'a' });
+  });
+
+  it('clamps numeric input and emits fieldchange', () => {
+    const control = new PluginControl({
+      fields: [{ type: 'number', key: 'opacity', min: 0, max: 1, step: 0.1 }],
+    });
+    control.onAdd(createMockMap());
+    const handler = vi.fn();
+    control.on('fieldchange', handler);
+
+    const input = control.getContentElement()!.querySelector('input')!;
+    input.value = '4';
+    input.dispatchEvent(new Event('input'));
+
+    expect(control.getState().data?.opacity).toBe(1);
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'fieldchange', key: 'opacity', oldValue: 0, newValue: 1 })
+    );
+  });
+
+  it('only bounds number inputs where min or max is set', () => {
+    const control = new PluginControl({
+      fields: [
+        { type: 'number', key: 'year' },
+        { type: 'range', key: 'opacity' },
+      ],
+    });
+    control.onAdd(createMockMap());
+    const [year, opacity] = control.getContentElement()!.querySelectorAll('input');
+
+    year.value = '2021';
+    year.dispatchEvent(new Event('input'));
+    opacity.value = '150';
+    opacity.dispatchEvent(new Event('input'));
+
+    expect(control.getState().data).toEqual({ year: 2021, opacity: 100 });
+    expect(year.hasAttribute('max')).toBe(false);
+    expect(opacity.max).toBe('100');
+  });
+
+  it('does not write invalid values to state', () => {
+    const control = new PluginControl({
+      fields: [
+        {
+          type: 'text',
+          key: 'name',
+          validate: (value) => (value.length < 3 ? 'Too short' : null),
+        },
+      ],
+    });
+    control.onAdd(createMockMap());
+
+    const input = control.getContentElement()!.querySelector('input')!;
+    input.value = 'ab';
+    input.dispatchEvent(new Event('input'));
+
+    expect(control.getState().data?.name).toBe('');
+    expect(input.getAttribute('aria-invalid')).toBe('true');
+    expect(control.getContentElement()!.querySelector('.plugin-control-field-error')?.textContent).toBe(
+      'Too short'
+    );
+  });
+
+  it('re-syncs inputs when state is changed programmatically', () => {
+    const control = new PluginControl({
+      fields: [{ type: 'range', key: 'opacity', min: 0, max: 1, step: 0.05 }],
+    });
+    control.onAdd(createMockMap());
+
+    control.setState({ data: { opacity: 0.5 } });
+    const input = control.getContentElement()!.querySelector('input')!;
+    expect(input.value).toBe('0.50');
+    expect(control.getContentElement()!.querySelector('output')?.value).toBe('0.50');
+  });
+
+  it('replaces an invalid value and clears its error when state changes programmatically', () => {
+    const control = new PluginControl({
+      fields: [
+        {
+          type: 'text',
+          key: 'name',
+          validate: (value) => (value.length < 3 ? 'Too short' : null),
+        },
+      ],
+    });
+    control.onAdd(createMockMap());
+    const input = control.getContentElement()!.querySelector('input')!;
+    input.value = 'ab';
+    input.dispatchEvent(new Event('input'));
+
+    control.setState({ data: { name: 'valid name' } });
+
+    expect(input.value).toBe('valid name');
+    expect(input.hasAttribute('aria-invalid')).toBe(false);
+    expect(control.getContentElement()!.querySelector('.plugin-control-field-error')?.textContent).toBe(
+      ''
+    );
+  });
+
+  it('emits a statechange for the defaults of fields set later', () => {
+    const control = new PluginControl({ scheduler: 'sync' });
+    const handler = vi.fn();
+    control.on('statechange', handler);
+
+    control.setFields([{ type: 'checkbox', key: 'visible', defaultValue: true }]);
+
+    expect(control.getState().data).toEqual({ visible: true });
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({ changedDataKeys: ['visible'] })
+    );
+  });
+});
+
+describe('PluginControl resizing and dragging', () => {
+  function pointer(type: string, clientX: number, clientY: number): MouseEvent {
+    return new MouseEvent(type, { clientX, clientY, button: 0, bubbles: true });
+  }
+
+  it('applies panel size changes from setState', () => {
+    const control = new PluginControl();
+    control.onAdd(createMockMap());
+    const panel = control.getContentElement()!.parentElement!;
+
+    control.setState({ panelWidth: 350, panelHeight: 240 });
+    expect(panel.style.width).toBe('350px');
+    expect(panel.style.height).toBe('240px');
+  });
+
+  it('resizes within bounds and emits resize', () => {
+    const control = new PluginControl({ resizable: true, maxPanelWidth: 400 });
+    control.onAdd(createMockMap());
+    const handler = vi.fn();
+    control.on('resize', handler);
+    const handle = control.getContentElement()!.parentElement!.querySelector('.plugin-control-resize-handle')!;
+
+    handle.dispatchEvent(pointer('pointerdown', 0, 0));
+    document.dispatchEvent(pointer('pointermove', 900, 150));
+    document.dispatchEvent(pointer('pointerup', 900, 150));
+
+    expect(control.getState()).toMatchObject({ panelWidth: 400, panelHeight: 150 });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('stores the offset after dragging the header', () => {
+    const control = new PluginControl({ draggable: true });
+    control.onAdd(createMockMap());
+    const handler = vi.fn();
+    control.on('move', handler);
+    const title = control.getContentElement()!.parentElement!.querySelector('.plugin-control-title')!;
+
+    title.dispatchEvent(pointer('pointerdown', 0, 0));
+    document.dispatchEvent(pointer('pointermove', 20, 30));
+    document.dispatchEvent(pointer('pointerup', 20, 30));
+
+    // The mock map container has no size, so the offset is clamped to its origin
+    expect(control.getState().panelOffset).toEqual({ x: 0, y: 0 });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('PluginControl panel placement', () => {
+  function rect(left: number, top: number, width: number, height: number): DOMRect {
+    return {
+      left,
+      top,
+      width,
+      height,
+      right: left + width,
+      bottom: top + height,
+      x: left,
+      y: top,
+      toJSON: () => ({}),
+    };
+  }
+
+  it('flips, shifts and caps the panel to stay inside the map', () => {
+    const map = createMockMap();
+    const mapContainer = map.getContainer();
+    vi.spyOn(mapContainer, 'getBoundingClientRect').mockReturnValue(rect(0, 0, 400, 300));
+
+    const control = new PluginControl();
+    const container = control.onAdd(map);
+    const corner = document.createElement('div');
+    corner.className = 'maplibregl-ctrl-top-left';
+    corner.appendChild(container);
+    mapContainer.appendChild(corner);
+
+    const button = container.querySelector('.plugin-control-toggle')!;
+    vi.spyOn(button, 'getBoundingClientRect').mockReturnValue(rect(200, 150, 29, 29));
+    const panel = control.getContentElement()!.parentElement!;
+    vi.spyOn(panel, 'getBoundingClientRect').mockReturnValue(rect(0, 0, 300, 200));
+
+    control.expand();
+
+    // Not enough room below (116px), more room above (145px): flip and cap
+    expect(panel.style.top).toBe('');
+    expect(panel.style.bottom).toBe('155px');
+    expect(panel.style.maxHeight).toBe('145px');
+    expect(panel.dataset.anchorY).toBe('bottom');
+    // Shifted left so the 300px panel fits in the 400px map
+    expect(panel.style.left).toBe('100px');
+  });
+});
+
+describe('PluginControl accessibility', () => {
+  function key(key: string, init: KeyboardEventInit = {}): KeyboardEvent {
+    return new KeyboardEvent('keydown', { key, bubbles: true, ...init });
+  }
+
+  it('wires ARIA attributes between the toggle and the panel', () => {
+    const control = new PluginControl({ title: 'Layers' });
+    const container = control.onAdd(createMockMap());
+    const button = container.querySelector('.plugin-control-toggle')!;
+    const panel = control.getContentElement()!.parentElement!;
+
+    expect(button.getAttribute('aria-controls')).toBe(panel.id);
+    expect(button.getAttribute('aria-expanded')).toBe('false');
+    expect(panel.getAttribute('role')).toBe('dialog');
+    expect(document.getElementById(panel.getAttribute('aria-labelledby')!)?.textContent).toBe('Layers');
+
+    control.expand();
+    expect(button.getAttribute('aria-expanded')).toBe('true');
+  });
+
+  it('moves focus into the panel and back on Escape', () => {
+    const control = new PluginControl();
+    const container = control.onAdd(createMockMap());
+    document.body.appendChild(container);
+    const button = container.querySelector<HTMLButtonElement>('.plugin-control-toggle')!;
+    const panel = control.getContentElement()!.parentElement!;
+
+    button.click();
+    expect(document.activeElement).toBe(panel);
+
+    panel.dispatchEvent(key('Escape'));
+    expect(control.getState().collapsed).toBe(true);
+    expect(document.activeElement).toBe(button);
+  });
+
+  it('leaves focus where it is on programmatic expands', () => {
+    const control = new PluginControl();
+    const container = control.onAdd(createMockMap());
+    document.body.appendChild(container);
+    const search = document.createElement('input');
+    document.body.appendChild(search);
+    search.focus();
+
+    control.expand();
+    expect(document.activeElement).toBe(search);
+
+    control.collapse();
+    control.setOptions({ collapsed: false });
+    expect(document.activeElement).toBe(search);
+  });
+
+  it('toggles with the keyboard shortcut from the map', () => {
+    const map = createMockMap();
+    const control = new PluginControl({ keyboardShortcut: 'Alt+P' });
+    control.onAdd(map);
+
+    map.getContainer().dispatchEvent(key('p', { altKey: true, code: 'KeyP' }));
+    expect(control.getState().collapsed).toBe(false);
+
+    control.onRemove();
+    map.getContainer().dispatchEvent(key('p', { altKey: true, code: 'KeyP' }));
+    expect(control.getState().collapsed).toBe(false);
+  });
+});
+
+describe('PluginControl theme', () => {
+  it('applies and switches the theme at runtime', () => {
+    const control = new PluginControl({ theme: 'dark' });
+    const container = control.onAdd(createMockMap());
+    const panel = control.getContentElement()!.parentElement!;
+    expect(container.dataset.theme).toBe('dark');
+    expect(panel.dataset.theme).toBe('dark');
+
+    control.setTheme('light');
+    expect(container.dataset.theme).toBe('light');
+    expect(panel.dataset.theme).toBe('light');
+  });
+
+  it('follows the color scheme preference in auto mode', () => {
+    const listeners = new Set<() => void>();
+    const query = {
+      matches: false,
+      addEventListener: (_type: string, listener: () => void) => listeners.add(listener),
+      removeEventListener: (_type: string, listener: () => void) => listeners.delete(listener),
+    };
+    const matchMedia = vi.fn(() => query);
+    vi.stubGlobal('matchMedia', matchMedia);
+
+    const control = new PluginControl({ theme: 'auto' });
+    const container = control.onAdd(createMockMap());
+    expect(container.dataset.theme).toBe('light');
+
+    query.matches = true;
+    listeners.forEach((listener) => listener());
+    expect(container.dataset.theme).toBe('dark');
+
+    control.onRemove();
+    expect(listeners.size).toBe(0);
+    vi.unstubAllGlobals();
+  });
+});
+
+describe('PluginControl localization', () => {
+  it('re-renders built-in labels when the locale changes', () => {
+    const control = new PluginControl({ messages: { en: { placeholder: 'Nothing yet' } } });
+    control.onAdd(createMockMap());
+    const panel = control.getContentElement()!.parentElement!;
+    expect(control.getContentElement()?.textContent).toBe('Nothing yet');
+
+    control.setLocale('de');
+    expect(panel.querySelector('.plugin-control-close')?.getAttribute('aria-label')).toBe(
+      'Panel schließen'
+    );
+    expect(control.getLocale()).toBe('de');
+  });
+
+  it('mirrors the panel on right-to-left maps', () => {
+    const map = createMockMap();
+    map.getContainer().setAttribute('dir', 'rtl');
+    const control = new PluginControl();
+    control.onAdd(map);
+    expect(control.getContentElement()!.parentElement!.getAttribute('dir')).toBe('rtl');
+  });
+});
+
+describe('PluginControl toggle button', () => {
+  it('renders custom icons from SVG strings and URLs', () => {
+    const control = new PluginControl({ icon: '<svg class="custom-icon"></svg>' });
+    const container = control.onAdd(createMockMap());
+    expect(container.querySelector('.plugin-control-icon .custom-icon')).not.toBeNull();
+
+    control.setIcon('https://example.com/icon.png');
+    expect(container.querySelector<HTMLImageElement>('.plugin-control-icon img')?.src).toBe(
+      'https://example.com/icon.png'
+    );
+  });
+
+  it('derives the tooltip from the title', () => {
+    const control = new PluginControl({ title: 'Filters' });
+    const container = control.onAdd(createMockMap());
+    expect(container.querySelector('.plugin-control-tooltip')?.textContent).toBe('Filters');
+  });
+
+  it('shows counts and dots on the badge', () => {
+    const control = new PluginControl({ title: 'Filters' });
+    const container = control.onAdd(createMockMap());
+    const button = container.querySelector('.plugin-control-toggle')!;
+    const badge = container.querySelector<HTMLElement>('.plugin-control-badge')!;
+    expect(badge.hidden).toBe(true);
+
+    control.setBadge(3);
+    expect(badge.hidden).toBe(false);
+    expect(badge.textContent).toBe('3');
+    expect(button.getAttribute('aria-label')).toBe('Filters (3)');
+
+    control.setBadge(150);
+    expect(badge.textContent).toBe('99+');
+
+    control.setBadge(true);
+    expect(badge.classList.contains('plugin-control-badge-dot')).toBe(true);
+
+    control.setBadge(0);
+    expect(badge.hidden).toBe(true);
+    expect(button.getAttribute('aria-label')).toBe('Filters');
+  });
+});
+
+describe('PluginControl panel modes', () => {
+  function createDockableMap() {
+    const map = createMockMap(() => ({ resize: vi.fn() }));
+    const host = document.createElement('div');
+    host.appendChild(map.getContainer());
+    document.body.appendChild(host);
+    return map;
+  }
+
+  it('docks the panel beside the map and resizes the map when toggled', () => {
+    const map = createDockableMap();
+    const host = map.getContainer().parentElement!;
+    const control = new PluginControl({ panelMode: 'docked-left' });
+    control.onAdd(map);
+    const mapContainer = map.getContainer();
+    const panel = control.getPanel()!;
+
+    expect(panel.nextElementSibling).toBe(mapContainer);
+    expect(mapContainer.parentElement!.classList.contains('plugin-control-dock')).toBe(true);
+    expect(mapContainer.parentElement!.parentElement).toBe(host);
+    expect(host.classList.length).toBe(0);
+
+    vi.mocked(map.resize).mockClear();
+    control.expand();
+    expect(map.resize).toHaveBeenCalled();
+
+    document.body.click();
+    expect(control.getState().collapsed).toBe(false);
+  });
+
+  it('renders into an external container', () => {
+    const sidebar = document.createElement('aside');
+    sidebar.id = 'external-sidebar';
+    document.body.appendChild(sidebar);
+    const control = new PluginControl({ panelMode: 'external', panelContainer: '#external-sidebar' });
+    control.onAdd(createMockMap());
+
+    expect(control.getPanel()!.parentElement).toBe(sidebar);
+    expect(control.getPanel()!.classList.contains('plugin-control-panel-external')).toBe(true);
+  });
+
+  it('switches modes at runtime without losing content or state', () => {
+    const map = createDockableMap();
+    const content = document.createElement('div');
+    const control = new PluginControl({ content, collapsed: false });
+    control.onAdd(map);
+    control.setState({ data: { value: 1 } });
+    const mapContainer = map.getContainer();
+
+    control.setPanelMode('docked-right');
+    expect(control.getPanelMode()).toBe('docked-right');
+    expect(mapContainer.nextElementSibling).toBe(control.getPanel());
+
+    control.setPanelMode('floating');
+    expect(control.getPanel()!.parentElement).toBe(mapContainer);
+    expect(mapContainer.parentElement!.querySelector('.plugin-control-dock')).toBeNull();
+    expect(mapContainer.parentElement!.classList.contains('plugin-control-dock')).toBe(false);
+    expect(control.getContentElement()!.firstChild).toBe(content);
+    expect(control.getState()).toMatchObject({ collapsed: false, data: { value: 1 } });
+  });
+});
+
+describe('PluginControl bottom sheet', () => {
+  function pointer(type: string, clientX: number, clientY: number): MouseEvent {
+    return new MouseEvent(type, { clientX, clientY, button: 0, bubbles: true });
+  }
+
+  function createSizedMap(width: number, height = 800) {
+    const map = createMockMap();
+    const container = map.getContainer();
+    Object.defineProperty(container, 'clientWidth', { value: width, configurable: true });
+    vi.spyOn(container, 'getBoundingClientRect').mockReturnValue(
+      new DOMRect(0, 0, width, height)
+    );
+    return map;
+  }
+
+  it('uses a bottom sheet below the breakpoint and switches back when the map widens', () => {
+    const map = createSizedMap(375);
+    const control = new PluginControl({ mobileBreakpoint: 600, collapsed: false });
+    control.onAdd(map);
+    const panel = control.getPanel()!;
+
+    expect(control.isSheet()).toBe(true);
+    expect(panel.classList.contains('plugin-control-panel-sheet')).toBe(true);
+    expect(panel.style.height).toBe('50%');
+
+    Object.defineProperty(map.getContainer(), 'clientWidth', { value: 1024 });
+    map.fire('resize');
+
+    expect(control.isSheet()).toBe(false);
+    expect(panel.style.width).toBe('300px');
+  });
+
+  it('snaps to the nearest snap point after dragging the handle', () => {
+    const control = new PluginControl({ mobileBreakpoint: 600, collapsed: false });
+    control.onAdd(createSizedMap(375));
+    const panel = control.getPanel()!;
+    vi.spyOn(panel, 'getBoundingClientRect').mockReturnValue(new DOMRect(0, 400, 375, 400));
+    const handle = panel.querySelector('.plugin-control-sheet-handle')!;
+
+    handle.dispatchEvent(pointer('pointerdown', 0, 400));
+    document.dispatchEvent(pointer('pointermove', 0, 100));
+    document.dispatchEvent(pointer('pointerup', 0, 100));
+
+    expect(control.getSheetSnap()).toBe('full');
+    expect(panel.style.height).toBe('90%');
+  });
+
+  it('collapses when swiped down', () => {
+    const control = new PluginControl({ mobileBreakpoint: 600, collapsed: false });
+    control.onAdd(createSizedMap(375));
+    const panel = control.getPanel()!;
+    vi.spyOn(panel, 'getBoundingClientRect').mockReturnValue(new DOMRect(0, 400, 375, 400));
+    const title = panel.querySelector('.plugin-control-title')!;
+
+    title.dispatchEvent(pointer('pointerdown', 0, 400));
+    document.dispatchEvent(pointer('pointermove', 0, 750));
+    document.dispatchEvent(pointer('pointerup', 0, 750));
+
+    expect(control.getState().collapsed).toBe(true);
+    expect(control.getSheetSnap()).toBe('half');
+  });
+});
+
+describe('PluginControl runtime options', () => {
+  function createMapWithCorners() {
+    const map = createMockMap();
+    for (const position of ['top-left', 'top-right', 'bottom-left', 'bottom-right']) {
+      const corner = document.createElement('div');
+      corner.className = `maplibregl-ctrl-${position}`;
+      corner.appendChild(document.createElement('div'));
+      map.getContainer().appendChild(corner);
+    }
+    return map;
+  }
+
+  it('updates title, class name and panel width', () => {
+    const control = new PluginControl({ title: 'Old', className: 'first' });
+    const container = control.onAdd(createMockMap());
+
+    control.setOptions({ title: 'New', className: 'second', panelWidth: 360, theme: undefined });
+
+    expect(control.getPanel()!.querySelector('.plugin-control-title')!.textContent).toBe('New');
+    expect(container.querySelector('.plugin-control-toggle')!.getAttribute('aria-label')).toBe('New');
+    expect(container.classList.contains('first')).toBe(false);
+    expect(container.classList.contains('second')).toBe(true);
+    expect(control.getState().panelWidth).toBe(360);
+    expect(control.getPanel()!.style.width).toBe('360px');
+  });
+
+  it('moves the control between corners', () => {
+    const map = createMapWithCorners();
+    const control = new PluginControl();
+    const container = control.onAdd(map);
+    map.getContainer().querySelector('.maplibregl-ctrl-top-right')!.appendChild(container);
+
+    control.setPosition('bottom-left');
+
+    const corner = map.getContainer().querySelector('.maplibregl-ctrl-bottom-left')!;
+    expect(corner.firstChild).toBe(container);
+    expect(control.getPosition()).toBe('bottom-left');
+  });
+});
+
+describe('PluginControl typed events', () => {
+  it('includes the previous state and changed keys in statechange', () => {
+    const control = new PluginControl<{ opacity: number; visible: boolean }>({ scheduler: 'sync' });
+    control.setState({ data: { opacity: 1, visible: true } });
+    const handler = vi.fn();
+    control.on('statechange', handler);
+
+    control.setState({ panelWidth: 320, data: { opacity: 0.5, visible: true } });
+
+    const event = handler.mock.calls[0][0];
+    expect(event.previousState).toMatchObject({ panelWidth: 300, data: { opacity: 1 } });
+    expect(event.changedKeys).toEqual(['panelWidth', 'data']);
+    expect(event.changedDataKeys).toEqual(['opacity']);
+  });
+
+  it('calls once handlers a single time and lets them be removed with off', () => {
+    const control = new PluginControl({ scheduler: 'sync' });
+    const once = vi.fn();
+    const removed = vi.fn();
+    control.once('statechange', once);
+    control.once('statechange', removed);
+    control.off('statechange', removed);
+
+    control.setState({ panelWidth: 310 });
+    control.setState({ panelWidth: 320 });
+
+    expect(once).toHaveBeenCalledTimes(1);
+    expect(removed).not.toHaveBeenCalled();
+  });
+
+  it('keeps once handlers for different events apart', () => {
+    const control = new PluginControl();
+    control.onAdd(createMockMap());
+    const handler = vi.fn();
+    control.once('expand', handler);
+    control.once('collapse', handler);
+    control.off('expand', handler);
+
+    control.toggle();
+    control.toggle();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ type: 'collapse' }));
+  });
+
+  it('lets subclasses emit custom events', () => {
+    interface RefreshEvents extends PluginControlEventMap {
+      refresh: PluginControlEventBase<'refresh'> & { source: string };
+    }
+    class RefreshControl extends PluginControl<PluginStateData, RefreshEvents> {
+      refresh(): void {
+        this.emit('refresh', { source: 'button' });
+      }
+    }
+    const control = new RefreshControl();
+    const handler = vi.fn();
+    control.on('refresh', handler);
+
+    control.refresh();
+
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'refresh', source: 'button', state: control.getState() })
+    );
+  });
+});
+
+describe('PluginControl event dispatch', () => {
+  it('keeps calling handlers after one throws and reports it as an error event', () => {
+    const control = new PluginControl({ scheduler: 'sync' });
+    const error = new Error('boom');
+    const after = vi.fn();
+    const onError = vi.fn();
+    control.on('statechange', () => {
+      throw error;
+    });
+    control.on('statechange', after);
+    control.on('error', onError);
+
+    expect(() => control.setState({ panelWidth: 320 })).not.toThrow();
+    expect(after).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'error', error, event: 'statechange' })
+    );
+  });
+
+  it('logs handler errors when there are no error handlers', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const control = new PluginControl({ scheduler: 'sync' });
+    control.on('statechange', () => {
+      throw new Error('boom');
+    });
+
+    control.setState({ panelWidth: 320 });
+
+    expect(consoleError).toHaveBeenCalledTimes(1);
+    consoleError.mockRestore();
+  });
+
+  it('keeps handlers when the control is removed and added again', () => {
+    const control = new PluginControl();
+    const handler = vi.fn();
+    control.on('expand', handler);
+
+    control.onAdd(createMockMap());
+    control.onRemove();
+    control.onAdd(createMockMap());
+    control.expand();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('forwards events to the map', () => {
+    const map = createMockMap();
+    const fire = vi.fn();
+    Object.assign(map, { fire });
+    const control = new PluginControl({ forwardEvents: true });
+    control.onAdd(map);
+
+    control.expand();
+
+    expect(fire).toHaveBeenCalledWith(
+      'plugincontrol.expand',
+      expect.objectContaining({ type: 'expand', control })
+    );
+  });
+});
+
+describe('PluginControl immutable state', () => {
+  it('returns a frozen state that cannot be mutated from outside', () => {
+    const control = new PluginControl({ fields: [{ type: 'number', key: 'count', label: 'Count' }] });
+    const state = control.getState();
+
+    expect(() => {
+      (state.data as Record<string, unknown>).count = 5;
+    }).toThrow(TypeError);
+    expect(control.getState().data).toEqual({ count: 0 });
+  });
+
+  it('copies objects passed to setState so the caller can keep mutating them', () => {
+    const control = new PluginControl();
+    const filters = ['a'];
+    control.setState({ data: { filters } });
+
+    filters.push('b');
+
+    expect(control.getState().data).toEqual({ filters: ['a'] });
+    expect(Object.isFrozen(control.getState().data!.filters)).toBe(true);
+  });
+
+  it('deep-merges objects and shares unchanged parts', () => {
+    const control = new PluginControl({ scheduler: 'sync' });
+    control.setState({ data: { filters: { year: 2020, tags: ['a'] }, view: { zoom: 3 } } });
+    const before = control.getState();
+
+    control.setState({ data: { filters: { year: 2021 } } });
+    const after = control.getState();
+
+    expect(after.data).toEqual({ filters: { year: 2021, tags: ['a'] }, view: { zoom: 3 } });
+    expect(after.data!.view).toBe(before.data!.view);
+  });
+
+  it('replaces the state with the result of an updater function', () => {
+    const control = new PluginControl({ scheduler: 'sync' });
+    control.setState({ data: { a: 1, b: 2 } });
+
+    control.setState((state) => ({ ...state, data: { a: state.data!.a } }));
+
+    expect(control.getState().data).toEqual({ a: 1 });
+  });
+
+  it('skips statechange when nothing changed', () => {
+    const control = new PluginControl({ scheduler: 'sync' });
+    control.setState({ data: { tags: ['a'] } });
+    const handler = vi.fn();
+    control.on('statechange', handler);
+
+    control.setState({ data: { tags: ['a'] } });
+    control.setState((state) => ({ ...state }));
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('notifies path subscriptions only when their slice changes', () => {
+    const control = new PluginControl({ scheduler: 'sync' });
+    control.setState({ data: { filters: { year: 2020 }, view: { zoom: 3 } } });
+    const listener = vi.fn();
+    const unsubscribe = control.subscribe('data.filters', listener);
+
+    control.setState({ data: { view: { zoom: 4 } } });
+    expect(listener).not.toHaveBeenCalled();
+
+    control.setState({ data: { filters: { year: 2021 } } });
+    expect(listener).toHaveBeenCalledWith(
+      { year: 2021 },
+      { year: 2020 },
+      expect.objectContaining({ data: expect.any(Object) })
+    );
+
+    unsubscribe();
+    control.setState({ data: { filters: { year: 2022 } } });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('PluginControl history', () => {
+  it('undoes and redoes data changes', () => {
+    const control = new PluginControl({ history: { coalesceDelay: 0 }, scheduler: 'sync' });
+    control.setState({ data: { opacity: 0.5 } });
+    control.setState({ data: { opacity: 0.8 } });
+
+    expect(control.undo()).toBe(true);
+    expect(control.getState().data).toEqual({ opacity: 0.5 });
+    expect(control.canRedo()).toBe(true);
+
+    expect(control.redo()).toBe(true);
+    expect(control.getState().data).toEqual({ opacity: 0.8 });
+    expect(control.canRedo()).toBe(false);
+  });
+
+  it('coalesces rapid changes into one step', () => {
+    vi.useFakeTimers();
+    const control = new PluginControl({ history: true, scheduler: 'sync' });
+    control.setState({ data: { opacity: 0.1 } });
+    control.setState({ data: { opacity: 0.2 } });
+    control.setState({ data: { opacity: 0.3 } });
+    vi.advanceTimersByTime(300);
+    control.setState({ data: { opacity: 0.4 } });
+    vi.useRealTimers();
+
+    control.undo();
+    expect(control.getState().data).toEqual({ opacity: 0.3 });
+    control.undo();
+    expect(control.getState().data).toEqual({});
+    expect(control.canUndo()).toBe(false);
+  });
+
+  it('bounds the history size and ignores keys that are not recorded', () => {
+    const control = new PluginControl({
+      history: { limit: 2, coalesceDelay: 0 },
+      scheduler: 'sync',
+    });
+    control.setState({ panelWidth: 400 });
+    expect(control.canUndo()).toBe(false);
+
+    for (const step of [1, 2, 3]) {
+      control.setState({ data: { step } });
+    }
+    expect(control.undo()).toBe(true);
+    expect(control.undo()).toBe(true);
+    expect(control.undo()).toBe(false);
+    expect(control.getState()).toMatchObject({ panelWidth: 400, data: { step: 1 } });
+  });
+
+  it('emits historychange', () => {
+    const control = new PluginControl({ history: { coalesceDelay: 0 }, scheduler: 'sync' });
+    const handler = vi.fn();
+    control.on('historychange', handler);
+
+    control.setState({ data: { a: 1 } });
+    control.undo();
+
+    expect(handler).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({ canUndo: true, canRedo: false })
+    );
+    expect(handler).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ canUndo: false, canRedo: true })
+    );
+  });
+
+  it('records nothing and emits no historychange with a limit of 0', () => {
+    const control = new PluginControl({ history: { limit: 0 }, scheduler: 'sync' });
+    const handler = vi.fn();
+    control.on('historychange', handler);
+
+    control.setState({ data: { a: 1 } });
+
+    expect(control.canUndo()).toBe(false);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('binds Ctrl+Z and Ctrl+Shift+Z in the panel', () => {
+    const control = new PluginControl({
+      collapsed: false,
+      history: { coalesceDelay: 0 },
+      scheduler: 'sync',
+    });
+    control.onAdd(createMockMap());
+    control.setState({ data: { a: 1 } });
+    const panel = control.getPanel()!;
+
+    panel.dispatchEvent(new KeyboardEvent('keydown', { key: 'z', ctrlKey: true, bubbles: true }));
+    expect(control.getState().data).toEqual({});
+
+    panel.dispatchEvent(
+      new KeyboardEvent('keydown', { key: 'Z', ctrlKey: true, shiftKey: true, bubbles: true })
+    );
+    expect(control.getState().data).toEqual({ a: 1 });
+  });
+});
+
+describe('PluginControl batched updates', () => {
+  it('emits one statechange per microtask with the merged changed keys', async () => {
+    const control = new PluginControl();
+    const handler = vi.fn();
+    control.on('statechange', handler);
+
+    control.setState({ panelWidth: 320 });
+    control.setState({ data: { opacity: 0.5 } });
+    control.setState({ data: { opacity: 0.6 } });
+    expect(handler).not.toHaveBeenCalled();
+    expect(control.getState().data).toEqual({ opacity: 0.6 });
+
+    await Promise.resolve();
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler.mock.calls[0][0]).toMatchObject({
+      changedKeys: ['panelWidth', 'data'],
+      changedDataKeys: ['opacity'],
+      previousState: { panelWidth: 300, data: {} },
+    });
+  });
+
+  it('skips the notification when the changes cancel out', () => {
+    const control = new PluginControl();
+    const handler = vi.fn();
+    control.on('statechange', handler);
+
+    control.setState({ panelWidth: 320 });
+    control.setState({ panelWidth: 300 });
+    control.flush();
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('emits once at the end of a batch', () => {
+    const control = new PluginControl({ scheduler: 'sync' });
+    const handler = vi.fn();
+    control.on('statechange', handler);
+
+    const result = control.batch(() => {
+      control.setState({ panelWidth: 320 });
+      control.batch(() => control.setState({ data: { a: 1 } }));
+      expect(handler).not.toHaveBeenCalled();
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler.mock.calls[0][0].changedKeys).toEqual(['panelWidth', 'data']);
+  });
+
+  it('emits immediately with the sync scheduler', () => {
+    const control = new PluginControl({ scheduler: 'sync' });
+    const handler = vi.fn();
+    control.on('statechange', handler);
+
+    control.setState({ panelWidth: 320 });
+    control.setState({ panelWidth: 340 });
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('emits once per animation frame with the frame scheduler', () => {
+    const callbacks: FrameRequestCallback[] = [];
+    const raf = vi
+      .spyOn(window, 'requestAnimationFrame')
+      .mockImplementation((callback) => callbacks.push(callback));
+    const control = new PluginControl({ scheduler: 'frame' });
+    const handler = vi.fn();
+    control.on('statechange', handler);
+
+    control.setState({ panelWidth: 320 });
+    control.setState({ panelWidth: 340 });
+    expect(callbacks).toHaveLength(1);
+
+    callbacks[0](0);
+    expect(handler).toHaveBeenCalledTimes(1);
+    raf.mockRestore();
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  PluginControlElement,
+  definePluginControlElement,
+} from '../src/lib/core/PluginControlElement';
+import { createMockMap } from './mockMap';
+
+definePluginControlElement();
+
+// Elements remove their control a microtask after they are disconnected
+afterEach(async () => {
+  document.body.replaceChildren();
+  await Promise.resolve();
+});
+
+function createElement(html: string): PluginControlElement {
+  const wrapper = document.createElement('div');
+  wrapper.innerHTML = html;
+  return wrapper.firstElementChild as PluginControlElement;
+}
+
+describe('PluginControlElement', () => {
+  it('finds the map with the for attribute and maps attributes to options', () => {
+    const map = createMockMap();
+    const host = document.createElement('div');
+    host.id = 'element-map';
+    Object.assign(host, { map });
+    document.body.appendChild(host);
+
+    const element = createElement(
+      '<maplibre-plugin-control for="element-map" title="Layers" panel-width="320" collapsed>' +
+        '<p class="slotted">Hello</p></maplibre-plugin-control>'
+    );
+    document.body.appendChild(element);
+
+    const control = element.control!;
+    expect(map.addControl).toHaveBeenCalledWith(control, 'top-right');
+    expect(control.getState()).toMatchObject({ collapsed: true, panelWidth: 320 });
+    expect(control.getPanel()!.querySelector('.plugin-control-title')!.textContent).toBe('Layers');
+    expect(control.getContentElement()!.querySelector('.slotted')!.textContent).toBe('Hello');
+  });
+
+  it('applies attribute changes and reflects the collapsed state', () => {
+    const element = createElement('<maplibre-plugin-control collapsed></maplibre-plugin-control>');
+    document.body.appendChild(element);
+    element.map = createMockMap();
+    const control = element.control!;
+
+    element.setAttribute('title', 'Renamed');
+    expect(control.getPanel()!.querySelector('.plugin-control-title')!.textContent).toBe('Renamed');
+
+    element.setAttribute('collapsed', 'false');
+    expect(control.getState().collapsed).toBe(false);
+
+    control.collapse();
+    expect(element.getAttribute('collapsed')).toBe('');
+    control.expand();
+    expect(element.getAttribute('collapsed')).toBe('false');
+  });
+
+  it('starts collapsed without the collapsed attribute', () => {
+    const element = createElement('<maplibre-plugin-control></maplibre-plugin-control>');
+    document.body.appendChild(element);
+    element.map = createMockMap();
+
+    expect(element.control!.getState().collapsed).toBe(true);
+  });
+
+  it('re-dispatches control events as DOM events', () => {
+    const element = createElement(
+      '<maplibre-plugin-control collapsed scheduler="sync"></maplibre-plugin-control>'
+    );
+    document.body.appendChild(element);
+    element.map = createMockMap();
+    const onExpand = vi.fn();
+    const onStateChange = vi.fn();
+    document.body.addEventListener('expand', onExpand);
+    element.addEventListener('statechange', onStateChange);
+
+    element.control!.expand();
+
+    expect(onExpand).toHaveBeenCalledTimes(1);
+    expect((onStateChange.mock.calls[0][0] as CustomEvent).detail.state.collapsed).toBe(false);
+    document.body.removeEventListener('expand', onExpand);
+  });
+
+  it('removes the control when the element is removed', async () => {
+    const map = createMockMap();
+    const element = createElement('<maplibre-plugin-control></maplibre-plugin-control>');
+    document.body.appendChild(element);
+    element.map = map;
+    const control = element.control!;
+
+    element.remove();
+    await Promise.resolve();
+
+    expect(map.removeControl).toHaveBeenCalledWith(control);
+    expect(element.control).toBeNull();
+  });
+
+  it('keeps the control and its state when the element is moved', async () => {
+    const map = createMockMap();
+    const element = createElement('<maplibre-plugin-control></maplibre-plugin-control>');
+    document.body.appendChild(element);
+    element.map = map;
+    const control = element.control!;
+    control.setState({ data: { count: 1 } });
+
+    document.body.prepend(element);
+    await Promise.resolve();
+
+    expect(element.control).toBe(control);
+    expect(map.addControl).toHaveBeenCalledTimes(1);
+    expect(map.removeControl).not.toHaveBeenCalled();
+    expect(control.getState().data).toEqual({ count: 1 });
+  });
+});
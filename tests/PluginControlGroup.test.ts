@@ -0,0 +1,88 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PluginControl } from '../src/lib/core/PluginControl';
+import { PluginControlGroup } from '../src/lib/core/PluginControlGroup';
+import { createMockMap } from './mockMap';
+
+describe('PluginControlGroup', () => {
+  it('keeps only one panel open in accordion mode', () => {
+    const group = new PluginControlGroup();
+    const map = createMockMap();
+    const first = new PluginControl({ group });
+    const second = new PluginControl({ group });
+    first.onAdd(map);
+    second.onAdd(map);
+
+    first.expand();
+    second.expand();
+    expect(first.getState().collapsed).toBe(true);
+    expect(second.getState().collapsed).toBe(false);
+  });
+
+  it('stacks the most recently expanded panel on top', () => {
+    const group = new PluginControlGroup({ accordion: false, zIndexBase: 10 });
+    const map = createMockMap();
+    const first = new PluginControl({ group });
+    const second = new PluginControl({ group });
+    first.onAdd(map);
+    second.onAdd(map);
+
+    second.expand();
+    first.expand();
+    expect(Number(first.getPanel()!.style.zIndex)).toBeGreaterThan(
+      Number(second.getPanel()!.style.zIndex)
+    );
+    expect(group.getControls()).toEqual([second, first]);
+  });
+
+  it('emits group-level expand and collapse events', () => {
+    const group = new PluginControlGroup();
+    const control = new PluginControl();
+    group.add(control);
+    control.onAdd(createMockMap());
+    const handler = vi.fn();
+    group.on('expand', handler);
+    group.on('collapse', handler);
+
+    control.expand();
+    control.collapse();
+    expect(handler.mock.calls.map(([event]) => event.type)).toEqual(['expand', 'collapse']);
+    expect(handler.mock.calls[0][0].control).toBe(control);
+  });
+
+  it('keeps calling group handlers after one throws', () => {
+    const group = new PluginControlGroup();
+    const control = new PluginControl({ group });
+    control.onAdd(createMockMap());
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const handler = vi.fn();
+    group.on('expand', () => {
+      throw new Error('boom');
+    });
+    group.on('expand', handler);
+
+    control.expand();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(control.getState().collapsed).toBe(false);
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it('shares a single click-outside listener', () => {
+    const addSpy = vi.spyOn(document, 'addEventListener');
+    const group = new PluginControlGroup({ accordion: false });
+    const map = createMockMap();
+    const controls = [new PluginControl({ group }), new PluginControl({ group })];
+    controls.forEach((control) => control.onAdd(map));
+    const clickListeners = addSpy.mock.calls.filter(([type]) => type === 'click');
+    expect(clickListeners).toHaveLength(1);
+    addSpy.mockRestore();
+
+    controls.forEach((control) => control.expand());
+    document.body.click();
+    expect(controls.every((control) => control.getState().collapsed)).toBe(true);
+
+    group.remove(controls[0]);
+    expect(controls[0].getGroup()).toBeNull();
+  });
+});
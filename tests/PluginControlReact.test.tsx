@@ -0,0 +1,172 @@
+import { describe, it, expect, vi } from 'vitest';
+import { StrictMode, createContext, useContext } from 'react';
+import { render, act } from '@testing-library/react';
+import { PluginControl } from '../src/lib/core/PluginControl';
+import { PluginControlReact } from '../src/lib/core/PluginControlReact';
+import { MapProvider, usePluginControl } from '../src/lib/context';
+import { createMockMap } from './mockMap';
+
+const LabelContext = createContext('default');
+
+function Label() {
+  return <span className="label">{useContext(LabelContext)}</span>;
+}
+
+describe('PluginControlReact', () => {
+  it('renders children and header actions into the panel with context', () => {
+    const map = createMockMap();
+    render(
+      <LabelContext.Provider value="from context">
+        <PluginControlReact map={map} headerActions={<button className="refresh">Refresh</button>}>
+          <Label />
+        </PluginControlReact>
+      </LabelContext.Provider>
+    );
+
+    const container = map.getContainer();
+    expect(container.querySelector('.plugin-control-content .label')?.textContent).toBe(
+      'from context'
+    );
+    expect(container.querySelector('.plugin-control-header-actions .refresh')).not.toBeNull();
+    expect(container.querySelector('.plugin-control-placeholder')).toBeNull();
+  });
+
+  it('keeps a single control under StrictMode and cleans up on unmount', () => {
+    const map = createMockMap();
+    const { unmount } = render(
+      <StrictMode>
+        <PluginControlReact map={map}>
+          <Label />
+        </PluginControlReact>
+      </StrictMode>
+    );
+
+    const container = map.getContainer();
+    expect(container.querySelectorAll('.plugin-control-panel')).toHaveLength(1);
+    expect(container.querySelectorAll('.label')).toHaveLength(1);
+
+    unmount();
+    expect(container.querySelector('.plugin-control-panel')).toBeNull();
+    expect(container.querySelector('.label')).toBeNull();
+  });
+
+  it('unmounts the portal when the control is removed from the map', () => {
+    const map = createMockMap();
+    const { container: root } = render(
+      <PluginControlReact map={map}>
+        <Label />
+      </PluginControlReact>
+    );
+    const control = map.addControl.mock.calls[0][0];
+    const host = map.getContainer().querySelector('.label')!.parentElement!;
+
+    act(() => map.removeControl(control));
+    expect(host.querySelector('.label')).toBeNull();
+    expect(root.innerHTML).toBe('');
+  });
+});
+
+describe('PluginControlReact prop updates', () => {
+  it('applies changed props to the live control', () => {
+    const map = createMockMap();
+    const { rerender } = render(<PluginControlReact map={map} title="First" panelWidth={300} />);
+    const control = map.addControl.mock.calls[0][0] as PluginControl;
+
+    rerender(<PluginControlReact map={map} title="Second" panelWidth={420} collapsed={false} />);
+
+    expect(map.addControl).toHaveBeenCalledTimes(1);
+    expect(control.getPanel()!.querySelector('.plugin-control-title')!.textContent).toBe('Second');
+    expect(control.getState()).toMatchObject({ panelWidth: 420, collapsed: false });
+  });
+
+  it('does not re-apply inline object and array props that did not change', () => {
+    const map = createMockMap();
+    function Control({ title }: { title: string }) {
+      return (
+        <PluginControlReact
+          map={map}
+          title={title}
+          collapsed={false}
+          fields={[{ type: 'checkbox', key: 'visible' }]}
+          history={{ coalesceDelay: 0 }}
+          scheduler="sync"
+        />
+      );
+    }
+    const { rerender } = render(<Control title="First" />);
+    const control = map.addControl.mock.calls[0][0] as PluginControl;
+    const form = control.getContentElement()!.querySelector('form');
+    act(() => control.setState({ data: { visible: true } }));
+
+    rerender(<Control title="Second" />);
+
+    expect(control.getContentElement()!.querySelector('form')).toBe(form);
+    expect(control.canUndo()).toBe(true);
+  });
+
+  it('restores the placeholder when children are removed', () => {
+    const map = createMockMap();
+    const { rerender } = render(
+      <PluginControlReact map={map}>
+        <Label />
+      </PluginControlReact>
+    );
+    const control = map.addControl.mock.calls[0][0] as PluginControl;
+
+    rerender(<PluginControlReact map={map} />);
+
+    expect(control.getContentElement()!.querySelector('.label')).toBeNull();
+    expect(
+      control.getContentElement()!.querySelector('.plugin-control-placeholder')
+    ).not.toBeNull();
+  });
+
+  it('shows the placeholder when the children render nothing', () => {
+    const map = createMockMap();
+    const show = false;
+    render(<PluginControlReact map={map}>{show && <Label />}</PluginControlReact>);
+    const control = map.addControl.mock.calls[0][0] as PluginControl;
+
+    expect(
+      control.getContentElement()!.querySelector('.plugin-control-placeholder')
+    ).not.toBeNull();
+  });
+
+  it('calls the latest onStateChange callback', () => {
+    const map = createMockMap();
+    const first = vi.fn();
+    const second = vi.fn();
+    const { rerender } = render(
+      <PluginControlReact map={map} scheduler="sync" onStateChange={first} />
+    );
+    rerender(<PluginControlReact map={map} scheduler="sync" onStateChange={second} />);
+    const control = map.addControl.mock.calls[0][0] as PluginControl;
+
+    act(() => control.setState({ data: { a: 1 } }));
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledWith(expect.objectContaining({ data: { a: 1 } }));
+  });
+});
+
+describe('PluginControlReact context', () => {
+  it('takes the map from MapProvider and provides the control to children', () => {
+    const map = createMockMap();
+    let provided: PluginControl | null = null;
+    function Child() {
+      provided = usePluginControl();
+      return null;
+    }
+
+    render(
+      <MapProvider map={map}>
+        <PluginControlReact>
+          <Child />
+        </PluginControlReact>
+      </MapProvider>
+    );
+
+    expect(map.addControl).toHaveBeenCalledTimes(1);
+    expect(provided).toBe(map.addControl.mock.calls[0][0]);
+  });
+});
@@ -4,6 +4,12 @@ import {
   formatNumericValue,
   generateId,
   classNames,
+  matchesShortcut,
+  isDeepEqual,
+  deepMerge,
+  deepFreeze,
+  freezeCopy,
+  getValueAtPath,
 } from '../src/lib/utils/helpers';
 
 describe('clamp', () => {
@@ -88,3 +94,85 @@ describe('classNames', () => {
     expect(classNames({ a: true, b: true, c: true })).toBe('a b c');
   });
 });
+
+describe('matchesShortcut', () => {
+  const event = (key: string, init: KeyboardEventInit = {}) =>
+    new KeyboardEvent('keydown', { key, ...init });
+
+  it('matches keys with modifiers', () => {
+    expect(matchesShortcut(event('p', { altKey: true }), 'Alt+P')).toBe(true);
+    expect(matchesShortcut(event('p'), 'Alt+P')).toBe(false);
+    expect(matchesShortcut(event('p', { altKey: true, ctrlKey: true }), 'Alt+P')).toBe(false);
+  });
+
+  it('falls back to the physical key code', () => {
+    expect(matchesShortcut(event('π', { altKey: true, code: 'KeyP' }), 'Alt+P')).toBe(true);
+  });
+
+  it('matches shifted characters without requiring Shift in the shortcut', () => {
+    expect(matchesShortcut(event('?', { shiftKey: true }), '?')).toBe(true);
+  });
+});
+
+describe('isDeepEqual', () => {
+  it('compares plain objects and arrays structurally', () => {
+    expect(isDeepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBe(true);
+    expect(isDeepEqual({ a: [1, 2] }, { a: [2, 1] })).toBe(false);
+    expect(isDeepEqual({ a: 1 }, { a: 1, b: undefined })).toBe(false);
+  });
+
+  it('compares other objects by identity', () => {
+    expect(isDeepEqual(new Date(0), new Date(0))).toBe(false);
+  });
+});
+
+describe('deepMerge', () => {
+  it('merges nested objects and keeps unchanged branches', () => {
+    const target = { filters: { year: 2020, tags: ['a'] }, view: { zoom: 3 } };
+    const result = deepMerge(target, { filters: { year: 2021 } });
+
+    expect(result).toEqual({ filters: { year: 2021, tags: ['a'] }, view: { zoom: 3 } });
+    expect(result.view).toBe(target.view);
+    expect(result.filters.tags).toBe(target.filters.tags);
+    expect(target.filters.year).toBe(2020);
+  });
+
+  it('replaces arrays and returns the target when nothing changes', () => {
+    const target = { tags: ['a', 'b'] };
+    expect(deepMerge(target, { tags: ['c'] }).tags).toEqual(['c']);
+    expect(deepMerge(target, { tags: ['a', 'b'] })).toBe(target);
+  });
+});
+
+describe('deepFreeze', () => {
+  it('freezes plain objects and arrays recursively', () => {
+    const element = document.createElement('div');
+    const value = deepFreeze({ a: { b: [1] }, element });
+
+    expect(Object.isFrozen(value.a)).toBe(true);
+    expect(Object.isFrozen(value.a.b)).toBe(true);
+    expect(Object.isFrozen(element)).toBe(false);
+  });
+});
+
+describe('freezeCopy', () => {
+  it('freezes copies of unfrozen objects and shares frozen ones', () => {
+    const shared = Object.freeze({ zoom: 3 });
+    const tags = ['a'];
+    const value = freezeCopy({ tags, shared });
+
+    expect(Object.isFrozen(value.tags)).toBe(true);
+    expect(value.tags).not.toBe(tags);
+    expect(Object.isFrozen(tags)).toBe(false);
+    expect(value.shared).toBe(shared);
+  });
+});
+
+describe('getValueAtPath', () => {
+  it('reads nested values', () => {
+    const value = { data: { tags: ['a', 'b'] } };
+    expect(getValueAtPath(value, 'data.tags.1')).toBe('b');
+    expect(getValueAtPath(value, 'data.missing.key')).toBeUndefined();
+    expect(getValueAtPath(value, '')).toBe(value);
+  });
+});
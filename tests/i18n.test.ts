@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { createTranslator } from '../src/lib/core/i18n';
+
+describe('createTranslator', () => {
+  it('uses the built-in catalogue for the language of a regional locale', () => {
+    const t = createTranslator('de-AT');
+    expect(t('closePanel')).toBe('Panel schließen');
+  });
+
+  it('prefers overrides and substitutes placeholders', () => {
+    const t = createTranslator('fr', 'en', { fr: { layerOpacity: 'Transparence : {layer}' } });
+    expect(t('layerOpacity', { layer: 'eau' })).toBe('Transparence : eau');
+    expect(t('noLayers')).toBe('Aucune couche');
+  });
+
+  it('falls back to the fallback locale and then English', () => {
+    const t = createTranslator('xx', 'es', { xx: { noLayers: 'none' } });
+    expect(t('noLayers')).toBe('none');
+    expect(t('closePanel')).toBe('Cerrar panel');
+
+    const partial = createTranslator('pt', 'pt', { pt: {} });
+    expect(partial('closePanel')).toBe('Close panel');
+  });
+});
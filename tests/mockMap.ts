@@ -0,0 +1,62 @@
+import { vi } from 'vitest';
+import type { Mock } from 'vitest';
+import type { IControl, Map as MapLibreMap } from 'maplibre-gl';
+
+type MockMapHandler = (event?: unknown) => void;
+
+/**
+ * Members shared by every mock map.
+ */
+export interface MockMapBase {
+  getContainer: () => HTMLElement;
+  getCanvas: () => HTMLCanvasElement;
+  on: Mock<(type: string, handler: MockMapHandler) => void>;
+  off: Mock<(type: string, handler: MockMapHandler) => void>;
+  /** Calls the handlers registered for an event type */
+  fire: (type: string, event?: unknown) => void;
+  addControl: Mock<(control: IControl) => void>;
+  removeControl: Mock<(control: IControl) => void>;
+  hasControl: (control: IControl) => boolean;
+}
+
+/**
+ * Creates a minimal map stand-in with a container in the document, a canvas,
+ * event registration and controls. Members a test needs beyond that are added
+ * by `extend`, which receives the base map, e.g. to fire events.
+ *
+ * @param extend - Returns additional or replacing map members
+ * @returns The mock map, typed as a MapLibre map with the mock members
+ */
+export function createMockMap<T extends object = object>(
+  extend?: (map: MockMapBase) => T
+): MapLibreMap & MockMapBase & T {
+  const container = document.createElement('div');
+  const canvas = document.createElement('canvas');
+  container.appendChild(canvas);
+  document.body.appendChild(container);
+  const handlers: Record<string, Set<MockMapHandler>> = {};
+  const controls = new Set<IControl>();
+
+  const map: MockMapBase = {
+    getContainer: () => container,
+    getCanvas: () => canvas,
+    on: vi.fn((type: string, handler: MockMapHandler) => {
+      (handlers[type] ??= new Set()).add(handler);
+    }),
+    off: vi.fn((type: string, handler: MockMapHandler) => {
+      handlers[type]?.delete(handler);
+    }),
+    fire: (type: string, event?: unknown) => handlers[type]?.forEach((handler) => handler(event)),
+    addControl: vi.fn((control: IControl) => {
+      controls.add(control);
+      container.appendChild(control.onAdd(map as unknown as MapLibreMap));
+    }),
+    removeControl: vi.fn((control: IControl) => {
+      controls.delete(control);
+      control.onRemove(map as unknown as MapLibreMap);
+    }),
+    hasControl: (control: IControl) => controls.has(control),
+  };
+  Object.assign(map, extend?.(map));
+  return map as unknown as MapLibreMap & MockMapBase & T;
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PluginControl } from '../src/lib/core/PluginControl';
+import { loadPersistedState, savePersistedState } from '../src/lib/core/persistence';
+
+beforeEach(() => {
+  localStorage.clear();
+  window.history.replaceState(null, '', '/');
+});
+
+describe('persistence', () => {
+  it('saves and restores state with whitelisted data keys', () => {
+    const options = { key: 'test', dataKeys: ['opacity'] };
+    savePersistedState(options, {
+      collapsed: false,
+      panelWidth: 320,
+      data: { opacity: 0.5, secret: true },
+    });
+
+    expect(loadPersistedState(options)).toEqual({
+      collapsed: false,
+      panelWidth: 320,
+      data: { opacity: 0.5 },
+    });
+  });
+
+  it('stores state in the URL hash', () => {
+    const options = { storage: 'hash' as const, key: 'ctrl' };
+    savePersistedState(options, { collapsed: true, panelWidth: 300, data: { a: 1 } });
+
+    expect(new URLSearchParams(window.location.hash.slice(1)).get('ctrl')).toContain('"a":1');
+    expect(loadPersistedState(options)?.data).toEqual({ a: 1 });
+  });
+
+  it('keeps a MapLibre view in the URL hash intact', () => {
+    window.history.replaceState(null, '', '/#12/37.7/-122.4');
+    const options = { storage: 'hash' as const, key: 'ctrl' };
+    savePersistedState(options, { collapsed: true, panelWidth: 300, data: { a: 1 } });
+    savePersistedState(options, { collapsed: false, panelWidth: 300, data: { a: 2 } });
+
+    const [view, ...params] = window.location.hash.slice(1).split('&');
+    expect(view).toBe('12/37.7/-122.4');
+    expect(params).toHaveLength(1);
+    expect(loadPersistedState(options)).toMatchObject({ collapsed: false, data: { a: 2 } });
+  });
+
+  it('migrates or discards payloads with another version', () => {
+    savePersistedState({ version: 1 }, { collapsed: true, panelWidth: 300, data: { old: 1 } });
+
+    expect(loadPersistedState({ version: 2 })).toBeNull();
+    expect(
+      loadPersistedState({
+        version: 2,
+        migrate: (state, from) => ({ ...state, data: { migratedFrom: from } }),
+      })?.data
+    ).toEqual({ migratedFrom: 1 });
+  });
+
+  it('ignores malformed payloads', () => {
+    localStorage.setItem('plugin-control', '{not json');
+    expect(loadPersistedState({})).toBeNull();
+  });
+
+  it('restores state in the constructor and saves on change', () => {
+    const persist = { key: 'control' };
+    const first = new PluginControl({ persist, scheduler: 'sync' });
+    first.setState({ collapsed: false, data: { count: 3 } });
+
+    const second = new PluginControl({ persist });
+    expect(second.getState()).toMatchObject({ collapsed: false, data: { count: 3 } });
+
+    second.clearPersistedState();
+    expect(localStorage.getItem('control')).toBeNull();
+  });
+
+  it('falls back to the defaults and emits error when migrate throws', async () => {
+    savePersistedState({ version: 1 }, { collapsed: false, panelWidth: 300, data: { old: 1 } });
+    const failure = new Error('bad payload');
+
+    const control = new PluginControl({
+      persist: {
+        version: 2,
+        migrate: () => {
+          throw failure;
+        },
+      },
+    });
+    const handler = vi.fn();
+    control.on('error', handler);
+    await Promise.resolve();
+
+    expect(control.getState()).toMatchObject({ collapsed: true, data: {} });
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({ error: failure, event: 'migrate' })
+    );
+  });
+});
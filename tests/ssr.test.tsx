@@ -0,0 +1,17 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { renderToString } from 'react-dom/server';
+import { PluginControlReact } from '../src/lib/core/PluginControlReact';
+
+describe('server-side rendering', () => {
+  it('renders PluginControlReact to an empty string without a document', () => {
+    expect(typeof document).toBe('undefined');
+    expect(
+      renderToString(
+        <PluginControlReact map={null} title="Layers">
+          <p>Content</p>
+        </PluginControlReact>
+      )
+    ).toBe('');
+  });
+});
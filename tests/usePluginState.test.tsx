@@ -0,0 +1,73 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { PluginControl } from '../src/lib/core/PluginControl';
+import { usePluginState } from '../src/lib/hooks';
+import { MapProvider, useMap, PluginControlProvider, usePluginControl } from '../src/lib/context';
+import { createMockMap } from './mockMap';
+
+describe('usePluginState', () => {
+  it('keeps local state without a control', () => {
+    const { result } = renderHook(() => usePluginState({ collapsed: false }));
+
+    act(() => result.current.toggle());
+    expect(result.current.state.collapsed).toBe(true);
+  });
+
+  it('reads state from a control and writes back to it', () => {
+    const control = new PluginControl({ scheduler: 'sync' });
+    control.onAdd(createMockMap());
+    const { result } = renderHook(() => usePluginState(control));
+
+    act(() => control.setState({ data: { opacity: 0.5 } }));
+    expect(result.current.state.data).toEqual({ opacity: 0.5 });
+
+    act(() => result.current.setCollapsed(false));
+    expect(control.getState().collapsed).toBe(false);
+    expect(control.getPanel()!.classList.contains('expanded')).toBe(true);
+    expect(result.current.state.collapsed).toBe(false);
+
+    act(() => result.current.setData({ visible: true }));
+    expect(control.getState().data).toEqual({ opacity: 0.5, visible: true });
+
+    act(() => result.current.reset());
+    expect(control.getState()).toMatchObject({ collapsed: true, data: {} });
+    expect(result.current.state).toBe(control.getState());
+  });
+
+  it('sees changes made before the hook subscribed', () => {
+    const control = new PluginControl();
+    const { result } = renderHook(() => {
+      const pluginState = usePluginState(control);
+      // Changes the state during render, before useSyncExternalStore subscribes
+      if (!control.getState().data?.ready) control.setState({ data: { ready: true } });
+      return pluginState;
+    });
+
+    expect(result.current.state.data).toEqual({ ready: true });
+  });
+});
+
+describe('context', () => {
+  it('provides the map and the control', () => {
+    const map = createMockMap();
+    const control = new PluginControl();
+    const wrapper = ({ children }: { children: ReactNode }) => (
+      <MapProvider map={map}>
+        <PluginControlProvider control={control}>{children}</PluginControlProvider>
+      </MapProvider>
+    );
+
+    const { result } = renderHook(() => ({ map: useMap(), control: usePluginControl() }), {
+      wrapper,
+    });
+    expect(result.current.map).toBe(map);
+    expect(result.current.control).toBe(control);
+  });
+
+  it('throws when useMap is used outside a MapProvider', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(() => renderHook(() => useMap())).toThrow('useMap must be used within a MapProvider');
+    vi.mocked(console.error).mockRestore();
+  });
+});
@@ -22,6 +22,7 @@ export default defineConfig({
       entry: {
         index: resolve(__dirname, 'src/index.ts'),
         react: resolve(__dirname, 'src/react.ts'),
+        element: resolve(__dirname, 'src/element.ts'),
       },
       name: 'MapLibrePluginTemplate',
       formats: ['es', 'cjs'],
@@ -31,7 +32,7 @@ export default defineConfig({
       },
     },
     rollupOptions: {
-      external: ['react', 'react-dom', 'maplibre-gl'],
+      external: ['react', 'react/jsx-runtime', 'react-dom', 'maplibre-gl'],
       output: {
         globals: {
           react: 'React',